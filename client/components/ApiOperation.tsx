@@ -0,0 +1,223 @@
+import { useState } from "react";
+import { Loader2, Send } from "lucide-react";
+import { OpenApiOperation } from "@shared/api";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+
+interface ApiOperationProps {
+  method: "get" | "post" | "delete";
+  path: string;
+  operation: OpenApiOperation;
+}
+
+interface ApiResult {
+  status: number;
+  body: string;
+  ms: number;
+}
+
+/** A short type label for a JSON Schema, e.g. "Timeframe" or "number[]" */
+export function schemaLabel(schema: Record<string, unknown>): string {
+  if (typeof schema.$ref === "string") return schema.$ref.split("/").pop();
+  if (Array.isArray(schema.enum)) return schema.enum.join(" | ");
+  if (Array.isArray(schema.type)) return schema.type.join(" | ");
+  if (schema.type === "array") {
+    return `${schemaLabel(schema.items as Record<string, unknown>)}[]`;
+  }
+  if (Array.isArray(schema.anyOf)) {
+    return schema.anyOf.map(schemaLabel).join(" | ");
+  }
+  return typeof schema.type === "string" ? schema.type : "object";
+}
+
+export const methodClass = (method: string) =>
+  method === "get"
+    ? "text-success border-success/20 bg-success/10"
+    : method === "delete"
+      ? "text-destructive border-destructive/20 bg-destructive/10"
+      : "text-primary border-primary/20 bg-primary/10";
+
+const statusClass = (status: number) =>
+  status === 0 || status >= 500
+    ? "text-destructive"
+    : status >= 300
+      ? "text-warning"
+      : "text-success";
+
+function formatBody(text: string) {
+  try {
+    return JSON.stringify(JSON.parse(text), null, 2);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * One operation from the OpenAPI document, with a form to call it. Fields
+ * start from the document's examples.
+ */
+export function ApiOperation({ method, path, operation }: ApiOperationProps) {
+  const parameters = operation.parameters ?? [];
+  const content = operation.requestBody?.content["application/json"];
+
+  const [values, setValues] = useState<Record<string, string>>(() =>
+    Object.fromEntries(parameters.map((p) => [p.name, p.example ?? ""])),
+  );
+  const [body, setBody] = useState(() =>
+    content?.example !== undefined
+      ? JSON.stringify(content.example, null, 2)
+      : "{}",
+  );
+  const [token, setToken] = useState("");
+  const [result, setResult] = useState<ApiResult | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const send = async () => {
+    let url = path;
+    const query = new URLSearchParams();
+    for (const parameter of parameters) {
+      const value = values[parameter.name].trim();
+      if (parameter.in === "path") {
+        url = url.replace(`{${parameter.name}}`, encodeURIComponent(value));
+      } else if (value) {
+        query.set(parameter.name, value);
+      }
+    }
+    const search = query.toString();
+    if (search) url += `?${search}`;
+
+    setLoading(true);
+    const started = performance.now();
+    try {
+      const headers: Record<string, string> = {};
+      if (content) headers["Content-Type"] = "application/json";
+      if (operation.security && token) {
+        headers.Authorization = `Bearer ${token}`;
+      }
+      const response = await fetch(url, {
+        method: method.toUpperCase(),
+        headers,
+        ...(content && { body }),
+      });
+      setResult({
+        status: response.status,
+        body: formatBody(await response.text()),
+        ms: Math.round(performance.now() - started),
+      });
+    } catch (err) {
+      setResult({
+        status: 0,
+        body: err instanceof Error ? err.message : "Request failed",
+        ms: Math.round(performance.now() - started),
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {operation.description && (
+        <p className="text-sm text-muted-foreground">{operation.description}</p>
+      )}
+
+      {parameters.length > 0 && (
+        <div className="grid gap-3 sm:grid-cols-2">
+          {parameters.map((parameter) => (
+            <div key={parameter.name} className="space-y-1">
+              <Label htmlFor={`${operation.operationId}-${parameter.name}`}>
+                {parameter.name}
+                {parameter.required && (
+                  <span className="text-destructive"> *</span>
+                )}
+                <span className="ml-2 font-normal text-xs text-muted-foreground">
+                  {parameter.in} · {schemaLabel(parameter.schema)}
+                </span>
+              </Label>
+              <Input
+                id={`${operation.operationId}-${parameter.name}`}
+                value={values[parameter.name]}
+                onChange={(e) =>
+                  setValues({ ...values, [parameter.name]: e.target.value })
+                }
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {operation.security && (
+        <div className="space-y-1 sm:w-1/2">
+          <Label htmlFor={`${operation.operationId}-token`}>
+            Admin token
+            <span className="ml-2 font-normal text-xs text-muted-foreground">
+              header · ADMIN_TOKEN
+            </span>
+          </Label>
+          <Input
+            id={`${operation.operationId}-token`}
+            type="password"
+            value={token}
+            onChange={(e) => setToken(e.target.value)}
+          />
+        </div>
+      )}
+
+      {content && (
+        <div className="space-y-1">
+          <Label htmlFor={`${operation.operationId}-body`}>
+            Request body
+            <span className="ml-2 font-normal text-xs text-muted-foreground">
+              {schemaLabel(content.schema)}
+            </span>
+          </Label>
+          <Textarea
+            id={`${operation.operationId}-body`}
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            className="font-mono text-xs min-h-32"
+          />
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2 text-xs">
+        {Object.entries(operation.responses).map(([status, response]) => (
+          <Badge key={status} variant="outline" className="font-normal">
+            <span className={cn("font-mono mr-1", statusClass(+status))}>
+              {status}
+            </span>
+            {response.description} ·{" "}
+            {schemaLabel(response.content["application/json"].schema)}
+          </Badge>
+        ))}
+      </div>
+
+      <Button onClick={send} disabled={loading} size="sm">
+        {loading ? (
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        ) : (
+          <Send className="h-4 w-4 mr-2" />
+        )}
+        Send request
+      </Button>
+
+      {result && (
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">
+            <span className={cn("font-mono", statusClass(result.status))}>
+              {result.status || "Network error"}
+            </span>{" "}
+            in {result.ms} ms
+          </p>
+          <pre className="max-h-96 overflow-auto rounded-md bg-muted p-3 text-xs">
+            {result.body}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import { AlertTriangle, Database } from "lucide-react";
+import { DataSource } from "@shared/api";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+
+interface DataSourceNoticeProps {
+  source: DataSource;
+}
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+
+/**
+ * Where a prediction's bars came from. Synthetic bars get a banner that
+ * cannot be missed, since a signal computed from them means nothing.
+ */
+export function DataSourceNotice({ source }: DataSourceNoticeProps) {
+  return (
+    <div className="space-y-3">
+      {source.synthetic && (
+        <Alert variant="destructive" className="border-2 bg-destructive/5">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Demo data: not a real market signal</AlertTitle>
+          <AlertDescription>
+            This prediction was computed from synthetic prices generated by{" "}
+            {source.name}, not from market data. Do not trade on it.
+            {source.fallback && (
+              <span className="block mt-1 text-xs">
+                {source.fallback.requested} was requested but failed:{" "}
+                {source.fallback.reason}
+              </span>
+            )}
+          </AlertDescription>
+        </Alert>
+      )}
+      {source.stale && (
+        <Alert className="border-warning/50 bg-warning/5 [&>svg]:text-warning">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            {source.name} could not be reached, so bars fetched on{" "}
+            {formatTime(source.fetchedAt)} were used.
+          </AlertDescription>
+        </Alert>
+      )}
+      <p className="flex items-center gap-2 text-xs text-muted-foreground">
+        <Database className="h-3 w-3" />
+        <span>
+          Data from {source.name}
+          {source.lastBarDate && <> · last bar {source.lastBarDate}</>} ·
+          fetched {formatTime(source.fetchedAt)}
+        </span>
+      </p>
+    </div>
+  );
+}
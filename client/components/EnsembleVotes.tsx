@@ -0,0 +1,85 @@
+import { AlertTriangle, Users } from "lucide-react";
+import { EnsembleSummary } from "@shared/api";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { cn } from "@/lib/utils";
+
+interface EnsembleVotesProps {
+  prediction: "BUY" | "SELL" | "HOLD";
+  ensemble: EnsembleSummary;
+}
+
+const METHOD_LABELS: Record<EnsembleSummary["method"], string> = {
+  majority: "Majority vote",
+  weighted: "Weighted by past hit rate",
+  stacking: "Stacked classifier",
+};
+
+const voteClass = (vote: string) =>
+  vote === "BUY"
+    ? "text-success border-success/20 bg-success/10"
+    : vote === "SELL"
+      ? "text-destructive border-destructive/20 bg-destructive/10"
+      : "text-warning border-warning/20 bg-warning/10";
+
+export function EnsembleVotes({ prediction, ensemble }: EnsembleVotesProps) {
+  const dissenting = ensemble.votes.filter(
+    (vote) => vote.prediction !== prediction,
+  );
+
+  return (
+    <Card className="animate-in slide-in-from-bottom-4 delay-300">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center space-x-2">
+            <Users className="h-5 w-5" />
+            <span>Strategy Votes</span>
+          </span>
+          <Badge variant="outline">{ensemble.agreement}% agree</Badge>
+        </CardTitle>
+        <CardDescription>{METHOD_LABELS[ensemble.method]}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {dissenting.length > 0 && (
+          <Alert className="border-warning/50">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              Strategies disagree:{" "}
+              {dissenting.map((vote) => vote.strategy).join(", ")}{" "}
+              {dissenting.length === 1 ? "votes" : "vote"} against {prediction}.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="space-y-2">
+          {ensemble.votes.map((vote) => (
+            <div
+              key={vote.strategy}
+              className="flex items-center justify-between p-3 rounded-lg bg-muted/30"
+            >
+              <div>
+                <p className="text-sm font-mono">{vote.strategy}</p>
+                <p className="text-xs text-muted-foreground">
+                  {vote.confidence}% confidence · {vote.weight}% of the vote
+                </p>
+              </div>
+              <Badge
+                variant="outline"
+                className={cn("shrink-0", voteClass(vote.prediction))}
+              >
+                {vote.prediction}
+              </Badge>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,134 @@
+import { ListChecks } from "lucide-react";
+import { PredictionExplanation, SignalProbabilities } from "@shared/api";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { cn } from "@/lib/utils";
+
+interface ExplanationPanelProps {
+  prediction: "BUY" | "SELL" | "HOLD";
+  confidence: number;
+  explanation: PredictionExplanation;
+  /** Calibrated class probabilities, only from model strategies */
+  probabilities?: SignalProbabilities;
+}
+
+const formatValue = (value: number | string) =>
+  typeof value === "number" ? Number(value.toFixed(2)) : value;
+
+export function ExplanationPanel({
+  prediction,
+  confidence,
+  explanation,
+  probabilities,
+}: ExplanationPanelProps) {
+  return (
+    <Card className="animate-in slide-in-from-bottom-4 delay-500">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <ListChecks className="h-5 w-5" />
+          <span>Why {prediction}?</span>
+        </CardTitle>
+        <CardDescription>
+          Every rule that fired and every adjustment applied to the score
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {explanation.rules.map((rule) => (
+            <div
+              key={rule.id}
+              className="flex items-start justify-between p-3 rounded-lg bg-muted/30"
+            >
+              <div>
+                <p className="text-sm font-medium">{rule.description}</p>
+                <p className="text-xs text-muted-foreground">
+                  {rule.conditions
+                    .map(
+                      (condition) =>
+                        `${condition.feature} ${formatValue(condition.actual)} (${condition.expected})`,
+                    )
+                    .join(" · ")}
+                  {rule.weight !== undefined &&
+                    ` · weighted × ${rule.weight} for the market regime`}
+                </p>
+              </div>
+              <Badge
+                variant="outline"
+                className={cn(
+                  "shrink-0 font-mono",
+                  rule.contribution > 0
+                    ? "text-success border-success/20 bg-success/10"
+                    : "text-destructive border-destructive/20 bg-destructive/10",
+                )}
+              >
+                {rule.contribution > 0 ? "+" : ""}
+                {rule.contribution}
+              </Badge>
+            </div>
+          ))}
+        </div>
+
+        {explanation.adjustments.length > 0 && (
+          <div className="space-y-1">
+            <p className="text-xs font-medium text-muted-foreground">
+              Adjustments
+            </p>
+            {explanation.adjustments.map((adjustment) => (
+              <div
+                key={`${adjustment.id}-${adjustment.target}`}
+                className="flex items-center justify-between text-sm"
+              >
+                <span>{adjustment.description}</span>
+                <span className="font-mono text-muted-foreground">
+                  {adjustment.target} × {adjustment.multiplier}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {probabilities ? (
+          <div className="space-y-2 pt-2 border-t border-border">
+            {(["BUY", "HOLD", "SELL"] as const).map((signal) => (
+              <div key={signal} className="flex items-center space-x-3">
+                <span className="w-10 text-sm font-medium">{signal}</span>
+                <Progress value={probabilities[signal]} className="h-2" />
+                <span className="w-14 text-right text-sm font-mono">
+                  {probabilities[signal]}%
+                </span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 gap-4 pt-2 border-t border-border text-sm">
+            <div>
+              <p className="text-muted-foreground">Score</p>
+              <p className="font-mono">
+                {explanation.rawScore} → {explanation.finalScore}{" "}
+                <span className="text-muted-foreground">
+                  (needs ±{explanation.scoreThreshold})
+                </span>
+              </p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Confidence</p>
+              <p className="font-mono">
+                {confidence}%{" "}
+                <span className="text-muted-foreground">
+                  (needs &gt;{explanation.confidenceThreshold}%)
+                </span>
+              </p>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -4,13 +4,15 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { History, TrendingUp, TrendingDown, Minus, Trash2 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { TIMEFRAME_LABELS } from "@/lib/timeframes";
+import { Timeframe } from "@shared/api";
 
 interface HistoricalPrediction {
   id: string;
   symbol: string;
   prediction: "BUY" | "SELL" | "HOLD";
   confidence: number;
-  timeframe: "today" | "tomorrow";
+  timeframe: Timeframe;
   timestamp: number;
 }
 
@@ -128,7 +130,7 @@ export function PredictionHistory() {
                     </Badge>
                     <span className="font-medium">{pred.symbol}</span>
                     <Badge variant="secondary" className="text-xs">
-                      {pred.timeframe}
+                      {TIMEFRAME_LABELS[pred.timeframe] ?? pred.timeframe}
                     </Badge>
                   </div>
 
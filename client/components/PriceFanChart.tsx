@@ -0,0 +1,162 @@
+import {
+  Area,
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { PredictionResponse, PriceTargets } from "@shared/api";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+
+interface PriceFanChartProps {
+  history: PredictionResponse["priceSeries"];
+  targets: PriceTargets;
+}
+
+const chartConfig = {
+  close: {
+    label: "Close",
+    color: "hsl(var(--chart-1))",
+  },
+  median: {
+    label: "Median",
+    color: "hsl(var(--chart-2))",
+  },
+  outer: {
+    label: "5–95%",
+    color: "hsl(var(--chart-2))",
+  },
+  inner: {
+    label: "25–75%",
+    color: "hsl(var(--chart-2))",
+  },
+} satisfies ChartConfig;
+
+// The next `count` weekdays after `date` (YYYY-MM-DD)
+function nextWeekdays(date: string, count: number) {
+  const dates: string[] = [];
+  const day = new Date(`${date}T00:00:00Z`);
+  while (dates.length < count) {
+    day.setUTCDate(day.getUTCDate() + 1);
+    if (day.getUTCDay() !== 0 && day.getUTCDay() !== 6) {
+      dates.push(day.toISOString().slice(0, 10));
+    }
+  }
+  return dates;
+}
+
+/**
+ * Recent closes followed by the forecast fan. Between the last close and the
+ * horizon, each band widens with the square root of time, as volatility does.
+ */
+function buildData({ history, targets }: PriceFanChartProps) {
+  const { basePrice, horizonBars, median, percentiles } = targets;
+  const at = (target: number, step: number) =>
+    Math.round(
+      basePrice *
+        Math.pow(target / basePrice, Math.sqrt(step / horizonBars)) *
+        100,
+    ) / 100;
+
+  const last = history[history.length - 1];
+  const fan = [last.date, ...nextWeekdays(last.date, horizonBars)].map(
+    (date, step) => ({
+      date,
+      close: step === 0 ? last.close : undefined,
+      median: at(median, step),
+      outer: [at(percentiles.p5, step), at(percentiles.p95, step)],
+      inner: [at(percentiles.p25, step), at(percentiles.p75, step)],
+    }),
+  );
+
+  return [...history.slice(0, -1), ...fan];
+}
+
+export function PriceFanChart({ history, targets }: PriceFanChartProps) {
+  if (history.length === 0) return null;
+
+  const { median, percentiles } = targets;
+
+  return (
+    <div className="mt-6">
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-sm font-medium">
+          Price range in {targets.horizonBars} trading day
+          {targets.horizonBars === 1 ? "" : "s"}
+        </p>
+        <p className="text-xs text-muted-foreground">
+          {targets.method === "historical"
+            ? `From ${targets.sampleSize} past moves`
+            : "From ATR volatility"}
+        </p>
+      </div>
+      <ChartContainer config={chartConfig} className="h-48 w-full aspect-auto">
+        <ComposedChart
+          data={buildData({ history, targets })}
+          margin={{ left: -8, right: 8 }}
+        >
+          <CartesianGrid vertical={false} />
+          <XAxis
+            dataKey="date"
+            tickLine={false}
+            axisLine={false}
+            minTickGap={24}
+            tickFormatter={(date: string) => date.slice(5)}
+          />
+          <YAxis
+            domain={["auto", "auto"]}
+            tickLine={false}
+            axisLine={false}
+            width={56}
+          />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          <Area
+            dataKey="outer"
+            stroke="none"
+            fill="var(--color-outer)"
+            fillOpacity={0.15}
+          />
+          <Area
+            dataKey="inner"
+            stroke="none"
+            fill="var(--color-inner)"
+            fillOpacity={0.3}
+          />
+          <Line
+            dataKey="median"
+            stroke="var(--color-median)"
+            strokeDasharray="4 4"
+            strokeWidth={2}
+            dot={false}
+          />
+          <Line
+            dataKey="close"
+            stroke="var(--color-close)"
+            strokeWidth={2}
+            dot={false}
+          />
+        </ComposedChart>
+      </ChartContainer>
+      <div className="grid grid-cols-5 gap-2 mt-2 text-center text-xs">
+        {[
+          ["5%", percentiles.p5],
+          ["25%", percentiles.p25],
+          ["Median", median],
+          ["75%", percentiles.p75],
+          ["95%", percentiles.p95],
+        ].map(([label, value]) => (
+          <div key={label}>
+            <p className="text-muted-foreground">{label}</p>
+            <p className="font-mono">{value}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
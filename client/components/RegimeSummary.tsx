@@ -0,0 +1,52 @@
+import { RegimeReport } from "@shared/api";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+
+interface RegimeSummaryProps {
+  regime: RegimeReport;
+}
+
+const TREND_LABELS: Record<RegimeReport["trend"], string> = {
+  "trending-up": "Trending up",
+  "trending-down": "Trending down",
+  ranging: "Ranging",
+};
+
+const VOLATILITY_LABELS: Record<RegimeReport["volatility"], string> = {
+  low: "Low volatility",
+  normal: "Normal volatility",
+  high: "High volatility",
+};
+
+export function RegimeSummary({ regime }: RegimeSummaryProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-2 mt-4 text-sm">
+      <span className="text-muted-foreground">Market regime</span>
+      <Badge
+        variant="outline"
+        className={cn(
+          regime.trend === "trending-up" &&
+            "text-success border-success/20 bg-success/10",
+          regime.trend === "trending-down" &&
+            "text-destructive border-destructive/20 bg-destructive/10",
+        )}
+      >
+        {TREND_LABELS[regime.trend]}
+      </Badge>
+      <Badge
+        variant="outline"
+        className={cn(
+          regime.volatility === "high" &&
+            "text-warning border-warning/20 bg-warning/10",
+        )}
+      >
+        {VOLATILITY_LABELS[regime.volatility]}
+      </Badge>
+      <span className="text-xs text-muted-foreground font-mono">
+        ADX {regime.adx} · slope {regime.slope > 0 ? "+" : ""}
+        {regime.slope}% · volatility percentile{" "}
+        {Math.round(regime.volatilityPercentile)}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ReferenceLine,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { PredictionResponse, StockFeatures } from "@shared/api";
+import { Badge } from "@/components/ui/badge";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+
+interface RsiChartProps {
+  data: PredictionResponse["rsiSeries"];
+  crossover: StockFeatures["rsi_crossover"];
+  divergence: StockFeatures["rsi_divergence"];
+}
+
+const chartConfig = {
+  value: {
+    label: "RSI",
+    color: "hsl(var(--chart-1))",
+  },
+} satisfies ChartConfig;
+
+function EventBadge({
+  label,
+  event,
+}: {
+  label: string;
+  event: RsiChartProps["crossover"];
+}) {
+  if (event === "NONE") return null;
+
+  return (
+    <Badge
+      variant="outline"
+      className={
+        event === "BULLISH"
+          ? "text-success border-success/20 bg-success/10"
+          : "text-destructive border-destructive/20 bg-destructive/10"
+      }
+    >
+      {event === "BULLISH" ? "Bullish" : "Bearish"} {label}
+    </Badge>
+  );
+}
+
+export function RsiChart({ data, crossover, divergence }: RsiChartProps) {
+  if (data.length === 0) return null;
+
+  return (
+    <div className="mt-6">
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-sm font-medium">RSI</p>
+        <div className="flex items-center space-x-2">
+          <EventBadge label="crossover" event={crossover} />
+          <EventBadge label="divergence" event={divergence} />
+        </div>
+      </div>
+      <ChartContainer config={chartConfig} className="h-40 w-full aspect-auto">
+        <LineChart data={data} margin={{ left: -20, right: 8 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis
+            dataKey="date"
+            tickLine={false}
+            axisLine={false}
+            minTickGap={24}
+            tickFormatter={(date: string) => date.slice(5)}
+          />
+          <YAxis
+            domain={[0, 100]}
+            ticks={[30, 50, 70]}
+            tickLine={false}
+            axisLine={false}
+          />
+          <ReferenceLine
+            y={70}
+            stroke="hsl(var(--destructive))"
+            strokeDasharray="4 4"
+          />
+          <ReferenceLine
+            y={30}
+            stroke="hsl(var(--success))"
+            strokeDasharray="4 4"
+          />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          <Line
+            dataKey="value"
+            type="monotone"
+            stroke="var(--color-value)"
+            strokeWidth={2}
+            dot={false}
+          />
+        </LineChart>
+      </ChartContainer>
+    </div>
+  );
+}
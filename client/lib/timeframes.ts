@@ -0,0 +1,21 @@
+import { Timeframe } from "@shared/api";
+
+export const TIMEFRAMES: Timeframe[] = ["today", "tomorrow", "1w", "2w", "1m"];
+
+/** Short labels for tabs and badges */
+export const TIMEFRAME_LABELS: Record<Timeframe, string> = {
+  today: "Today",
+  tomorrow: "Tomorrow",
+  "1w": "1W",
+  "2w": "2W",
+  "1m": "1M",
+};
+
+/** Possessive form used in headings, e.g. "Tomorrow's Trading Recommendation" */
+export const TIMEFRAME_TITLES: Record<Timeframe, string> = {
+  today: "Today's",
+  tomorrow: "Tomorrow's",
+  "1w": "1-Week",
+  "2w": "2-Week",
+  "1m": "1-Month",
+};
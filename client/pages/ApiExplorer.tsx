@@ -0,0 +1,193 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "react-router-dom";
+import { AlertTriangle, ArrowLeft, BookOpen, Download } from "lucide-react";
+import { OpenApiDocument, OpenApiOperation } from "@shared/api";
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from "@/components/ui/accordion";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ApiOperation, methodClass } from "@/components/ApiOperation";
+import { cn } from "@/lib/utils";
+
+interface OperationEntry {
+  method: "get" | "post" | "delete";
+  path: string;
+  operation: OpenApiOperation;
+}
+
+async function fetchDocument(): Promise<OpenApiDocument> {
+  const response = await fetch("/api/openapi.json");
+  if (!response.ok) {
+    throw new Error(`Could not load the API description (${response.status})`);
+  }
+  return response.json();
+}
+
+// Operations by tag, in the order the document lists them
+function groupByTag(document: OpenApiDocument) {
+  const groups = new Map<string, OperationEntry[]>();
+  for (const [path, item] of Object.entries(document.paths)) {
+    for (const method of ["get", "post", "delete"] as const) {
+      const operation = item[method];
+      if (!operation) continue;
+      for (const tag of operation.tags) {
+        groups.set(tag, [
+          ...(groups.get(tag) ?? []),
+          { method, path, operation },
+        ]);
+      }
+    }
+  }
+  return groups;
+}
+
+export default function ApiExplorer() {
+  const { data, error, isLoading } = useQuery({
+    queryKey: ["openapi"],
+    queryFn: fetchDocument,
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card/50 backdrop-blur-sm">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-2">
+              <div className="flex items-center justify-center w-8 h-8 bg-primary rounded-lg">
+                <BookOpen className="h-5 w-5 text-primary-foreground" />
+              </div>
+              <h1 className="text-xl font-bold">API Explorer</h1>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Button variant="outline" size="sm" asChild>
+                <a href="/api/openapi.json" download="openapi.json">
+                  <Download className="h-4 w-4 mr-2" />
+                  openapi.json
+                </a>
+              </Button>
+              <Button variant="ghost" size="sm" asChild>
+                <Link to="/">
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  Predictions
+                </Link>
+              </Button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 max-w-5xl space-y-6">
+        {isLoading && (
+          <div className="space-y-4">
+            <Skeleton className="h-24 w-full" />
+            <Skeleton className="h-48 w-full" />
+          </div>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{(error as Error).message}</AlertDescription>
+          </Alert>
+        )}
+
+        {data && (
+          <>
+            <div>
+              <h2 className="text-2xl font-bold">
+                {data.info.title}{" "}
+                <span className="text-base font-normal text-muted-foreground">
+                  v{data.info.version} · OpenAPI {data.openapi}
+                </span>
+              </h2>
+              <p className="text-muted-foreground">{data.info.description}</p>
+            </div>
+
+            {Array.from(groupByTag(data)).map(([tag, operations]) => (
+              <Card key={tag}>
+                <CardHeader>
+                  <CardTitle>{tag}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <Accordion type="multiple">
+                    {operations.map(({ method, path, operation }) => (
+                      <AccordionItem
+                        key={operation.operationId}
+                        value={operation.operationId}
+                      >
+                        <AccordionTrigger className="hover:no-underline">
+                          <span className="flex items-center gap-3 text-left">
+                            <Badge
+                              variant="outline"
+                              className={cn(
+                                "w-14 justify-center font-mono uppercase",
+                                methodClass(method),
+                              )}
+                            >
+                              {method}
+                            </Badge>
+                            <span className="font-mono text-sm">{path}</span>
+                            <span className="hidden md:inline text-sm font-normal text-muted-foreground">
+                              {operation.summary}
+                            </span>
+                          </span>
+                        </AccordionTrigger>
+                        <AccordionContent>
+                          <ApiOperation
+                            method={method}
+                            path={path}
+                            operation={operation}
+                          />
+                        </AccordionContent>
+                      </AccordionItem>
+                    ))}
+                  </Accordion>
+                </CardContent>
+              </Card>
+            ))}
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Schemas</CardTitle>
+                <CardDescription>
+                  Request and response contracts, as JSON Schema
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Accordion type="multiple">
+                  {Object.entries(data.components.schemas).map(
+                    ([name, schema]) => (
+                      <AccordionItem key={name} value={name}>
+                        <AccordionTrigger className="font-mono text-sm hover:no-underline">
+                          {name}
+                        </AccordionTrigger>
+                        <AccordionContent>
+                          <pre className="max-h-96 overflow-auto rounded-md bg-muted p-3 text-xs">
+                            {JSON.stringify(schema, null, 2)}
+                          </pre>
+                        </AccordionContent>
+                      </AccordionItem>
+                    ),
+                  )}
+                </Accordion>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -12,7 +12,9 @@ import {
   X,
   Clock,
   AlertTriangle,
+  BookOpen,
 } from "lucide-react";
+import { Link } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
@@ -25,30 +27,41 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { PredictionSkeleton } from "@/components/PredictionSkeleton";
 import { CountUpAnimation } from "@/components/CountUpAnimation";
+import { DataSourceNotice } from "@/components/DataSourceNotice";
 import { PredictionHistory } from "@/components/PredictionHistory";
+import { RsiChart } from "@/components/RsiChart";
+import { ExplanationPanel } from "@/components/ExplanationPanel";
+import { EnsembleVotes } from "@/components/EnsembleVotes";
+import { PriceFanChart } from "@/components/PriceFanChart";
+import { RegimeSummary } from "@/components/RegimeSummary";
 import { searchStocks, POPULAR_STOCKS } from "@/lib/stockSuggestions";
+import {
+  TIMEFRAMES,
+  TIMEFRAME_LABELS,
+  TIMEFRAME_TITLES,
+} from "@/lib/timeframes";
 import { cn } from "@/lib/utils";
-
-interface PredictionResult {
-  symbol: string;
-  prediction: "BUY" | "SELL" | "HOLD";
-  confidence: number;
-  accuracy: number;
-  timeframe: "today" | "tomorrow";
-  features: {
-    rsi: number;
-    trend: string;
-    volatility: string;
-    volume_trend: string;
-  };
-}
+import {
+  EnsembleMethod,
+  PredictRequest,
+  PredictionResponse,
+  Timeframe,
+} from "@shared/api";
 
 export default function Index() {
   const [symbol, setSymbol] = useState("");
-  const [timeframe, setTimeframe] = useState<"today" | "tomorrow">("tomorrow");
-  const [prediction, setPrediction] = useState<PredictionResult | null>(null);
+  const [timeframe, setTimeframe] = useState<Timeframe>("tomorrow");
+  const [mode, setMode] = useState<"single" | EnsembleMethod>("single");
+  const [prediction, setPrediction] = useState<PredictionResponse | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
   const [showSuggestions, setShowSuggestions] = useState(false);
@@ -120,7 +133,8 @@ export default function Index() {
         body: JSON.stringify({
           symbol: trimmedSymbol,
           timeframe,
-        }),
+          ...(mode !== "single" && { ensemble: { method: mode } }),
+        } satisfies PredictRequest),
         signal: controller.signal,
       });
 
@@ -131,7 +145,7 @@ export default function Index() {
         throw new Error(errorData.error || "Failed to get prediction");
       }
 
-      const result = await response.json();
+      const result: PredictionResponse = await response.json();
       setPrediction(result);
 
       // Save to history
@@ -234,10 +248,18 @@ export default function Index() {
               </div>
               <h1 className="text-xl font-bold">TradePredict AI</h1>
             </div>
-            <Badge variant="outline" className="flex items-center space-x-1">
-              <Brain className="h-3 w-3" />
-              <span>ML Powered</span>
-            </Badge>
+            <div className="flex items-center space-x-2">
+              <Button variant="ghost" size="sm" asChild>
+                <Link to="/api-explorer">
+                  <BookOpen className="h-4 w-4 mr-2" />
+                  API
+                </Link>
+              </Button>
+              <Badge variant="outline" className="flex items-center space-x-1">
+                <Brain className="h-3 w-3" />
+                <span>ML Powered</span>
+              </Badge>
+            </div>
           </div>
         </div>
       </header>
@@ -249,9 +271,9 @@ export default function Index() {
             AI-Powered Stock Prediction
           </h2>
           <p className="text-xl text-muted-foreground mb-8 max-w-2xl mx-auto">
-            Get tomorrow's trading signals with advanced machine learning
-            analysis. Enter any stock symbol and receive instant buy/sell
-            recommendations.
+            Get trading signals from today out to one month with advanced
+            machine learning analysis. Enter any stock symbol and receive
+            instant buy/sell recommendations.
           </p>
 
           {/* Search Interface */}
@@ -261,23 +283,47 @@ export default function Index() {
               <div className="mb-4">
                 <Tabs
                   value={timeframe}
-                  onValueChange={(value) =>
-                    setTimeframe(value as "today" | "tomorrow")
-                  }
+                  onValueChange={(value) => setTimeframe(value as Timeframe)}
                 >
-                  <TabsList className="grid w-full grid-cols-2">
-                    <TabsTrigger
-                      value="today"
-                      className="flex items-center space-x-2"
-                    >
-                      <Clock className="h-4 w-4" />
-                      <span>Today</span>
-                    </TabsTrigger>
-                    <TabsTrigger value="tomorrow">Tomorrow</TabsTrigger>
+                  <TabsList className="grid w-full grid-cols-5">
+                    {TIMEFRAMES.map((value) => (
+                      <TabsTrigger
+                        key={value}
+                        value={value}
+                        className="flex items-center space-x-1"
+                      >
+                        {value === "today" && <Clock className="h-4 w-4" />}
+                        <span>{TIMEFRAME_LABELS[value]}</span>
+                      </TabsTrigger>
+                    ))}
                   </TabsList>
                 </Tabs>
               </div>
 
+              {/* Strategy Selection */}
+              <div className="mb-4">
+                <Select
+                  value={mode}
+                  onValueChange={(value) =>
+                    setMode(value as "single" | EnsembleMethod)
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="single">Default strategy</SelectItem>
+                    <SelectItem value="majority">
+                      Ensemble: majority vote
+                    </SelectItem>
+                    <SelectItem value="weighted">
+                      Ensemble: weighted vote
+                    </SelectItem>
+                    <SelectItem value="stacking">Ensemble: stacking</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
               <div className="relative mb-4">
                 <div className="flex space-x-2">
                   <div className="relative flex-1">
@@ -404,6 +450,8 @@ export default function Index() {
         {/* Prediction Results */}
         {prediction && !loading && (
           <div className="space-y-6 mb-12">
+            <DataSourceNotice source={prediction.dataSource} />
+
             {/* Main Prediction Card */}
             <Card
               className={cn(
@@ -433,8 +481,8 @@ export default function Index() {
                   </span>
                 </CardTitle>
                 <CardDescription className="animate-in fade-in duration-500 delay-200">
-                  {prediction.timeframe === "today" ? "Today's" : "Tomorrow's"}{" "}
-                  Trading Recommendation
+                  {TIMEFRAME_TITLES[prediction.timeframe]} Trading
+                  Recommendation
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -473,22 +521,58 @@ export default function Index() {
                     </div>
                   </div>
 
-                  {/* Model Accuracy */}
+                  {/* Backtested Accuracy */}
                   <div className="text-center group">
                     <div className="text-4xl font-bold mb-2 text-chart-1 transition-all duration-500 animate-in zoom-in-75 delay-400 group-hover:scale-110 transform">
-                      <CountUpAnimation value={prediction.accuracy} />%
+                      <CountUpAnimation value={prediction.accuracy.hitRate} />%
                     </div>
                     <p className="text-muted-foreground animate-in fade-in delay-600">
-                      Model Accuracy
+                      Backtested Accuracy
                     </p>
                     <div className="mt-2 h-2 bg-muted rounded-full overflow-hidden animate-in slide-in-from-right delay-800">
                       <div
                         className="h-full bg-chart-1 transition-all duration-1000 ease-out"
-                        style={{ width: `${prediction.accuracy}%` }}
+                        style={{ width: `${prediction.accuracy.hitRate}%` }}
                       />
                     </div>
+                    <p className="mt-2 text-xs text-muted-foreground animate-in fade-in delay-800">
+                      {prediction.accuracy.sampleSize} past signals · 95% CI{" "}
+                      {prediction.accuracy.confidenceInterval.lower}–
+                      {prediction.accuracy.confidenceInterval.upper}%
+                    </p>
+                    {prediction.accuracy.inSample && (
+                      <p className="mt-1 text-xs text-warning">
+                        Includes bars the model was trained on
+                      </p>
+                    )}
+                    {prediction.accuracyByHorizon && (
+                      <div className="mt-3 flex flex-wrap justify-center gap-2 animate-in fade-in delay-800">
+                        {TIMEFRAMES.filter(
+                          (value) => prediction.accuracyByHorizon[value],
+                        ).map((value) => (
+                          <Badge
+                            key={value}
+                            variant={
+                              value === prediction.timeframe
+                                ? "secondary"
+                                : "outline"
+                            }
+                            className="font-mono text-xs"
+                          >
+                            {TIMEFRAME_LABELS[value]}{" "}
+                            {prediction.accuracyByHorizon[value].hitRate}%
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 </div>
+
+                {/* Price Targets */}
+                <PriceFanChart
+                  history={prediction.priceSeries}
+                  targets={prediction.priceTargets}
+                />
               </CardContent>
             </Card>
 
@@ -500,7 +584,8 @@ export default function Index() {
                   <span>Technical Analysis</span>
                 </CardTitle>
                 <CardDescription className="animate-in fade-in delay-600">
-                  Key indicators used in the prediction
+                  Key indicators used in the prediction · strategy{" "}
+                  <span className="font-mono">{prediction.strategy.id}</span>
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -549,8 +634,30 @@ export default function Index() {
                     </div>
                   ))}
                 </div>
+                <RegimeSummary regime={prediction.regime} />
+                <RsiChart
+                  data={prediction.rsiSeries}
+                  crossover={prediction.features.rsi_crossover}
+                  divergence={prediction.features.rsi_divergence}
+                />
               </CardContent>
             </Card>
+
+            {/* Ensemble Votes */}
+            {prediction.ensemble && (
+              <EnsembleVotes
+                prediction={prediction.prediction}
+                ensemble={prediction.ensemble}
+              />
+            )}
+
+            {/* Explanation */}
+            <ExplanationPanel
+              prediction={prediction.prediction}
+              confidence={prediction.confidence}
+              explanation={prediction.explanation}
+              probabilities={prediction.probabilities}
+            />
           </div>
         )}
 
@@ -570,9 +677,9 @@ export default function Index() {
               icon: Target,
               iconBg: "bg-chart-1/10",
               iconColor: "text-chart-1",
-              title: "High Accuracy",
+              title: "Measured Accuracy",
               description:
-                "Our models achieve 75-90% accuracy through comprehensive backtesting and continuous learning from market data.",
+                "Every prediction reports its hit rate from replaying the model over the symbol's own history, with sample size and confidence interval.",
               delay: "delay-200",
             },
             {
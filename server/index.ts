@@ -1,8 +1,9 @@
 import "dotenv/config";
 import express from "express";
 import cors from "cors";
-import { handleDemo } from "./routes/demo";
-import { handlePredict } from "./routes/predict";
+import { requireAdmin } from "./routes/admin";
+import { API_ROUTES } from "./routes/api";
+import { handleOpenApi } from "./routes/openapi";
 
 export function createServer() {
   const app = express();
@@ -12,15 +13,15 @@ export function createServer() {
   app.use(express.json());
   app.use(express.urlencoded({ extended: true }));
 
-  // Example API routes
-  app.get("/api/ping", (_req, res) => {
-    const ping = process.env.PING_MESSAGE ?? "ping";
-    res.json({ message: ping });
-  });
-
-  app.get("/api/demo", handleDemo);
-
-  app.post("/api/predict", handlePredict);
+  // API routes, as described by /api/openapi.json
+  for (const route of API_ROUTES) {
+    if (route.admin) {
+      app[route.method](route.path, requireAdmin, route.handler);
+    } else {
+      app[route.method](route.path, route.handler);
+    }
+  }
+  app.get("/api/openapi.json", handleOpenApi);
 
   return app;
 }
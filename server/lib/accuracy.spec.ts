@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest";
+import { ACCURACY_WINDOW, measureAccuracy, realizedMove } from "./accuracy";
+import { generateSyntheticData } from "./providers/synthetic";
+
+const bars = generateSyntheticData("TEST", { endDate: "2024-06-28" });
+
+describe("measureAccuracy", () => {
+  it("should only score signals whose horizon has ended", () => {
+    expect(measureAccuracy(bars, "tomorrow").sampleSize).toBe(100 - 50 - 1);
+    expect(measureAccuracy(bars, "1w").sampleSize).toBe(100 - 50 - 5);
+    expect(measureAccuracy(bars, "1m").sampleSize).toBe(100 - 50 - 21);
+  });
+
+  it("should only replay the most recent signals", () => {
+    const long = generateSyntheticData("TEST", {
+      endDate: "2024-06-28",
+      days: 400,
+    });
+    expect(measureAccuracy(long, "tomorrow").sampleSize).toBe(ACCURACY_WINDOW);
+  });
+});
+
+describe("realizedMove", () => {
+  it("should measure each horizon from the signal bar's close", () => {
+    const t = 60;
+    const base = bars[t].close;
+    expect(realizedMove(bars, t, "2w")).toBeCloseTo(
+      (bars[t + 10].close - base) / base,
+    );
+    expect(realizedMove(bars, t, "today")).toBeCloseTo(
+      (bars[t + 1].close - bars[t + 1].open) / bars[t + 1].open,
+    );
+  });
+});
@@ -0,0 +1,178 @@
+import { AccuracyReport } from "@shared/api";
+import { HORIZONS } from "./horizons";
+import { makePrediction, Signal, Timeframe } from "./prediction";
+import { StockData } from "./providers";
+import { getStrategy, StrategyConfig } from "./strategies";
+
+// Bars needed before the first prediction, so SMA50 has a full window
+export const WARMUP_BARS = 50;
+
+// Signals replayed to measure accuracy, the most recent with a known outcome.
+// Each replayed signal recomputes its indicators, so this bounds the cost.
+export const ACCURACY_WINDOW = 250;
+
+const Z_95 = 1.96;
+
+// A HOLD counts as correct when the price moved less than the horizon's band
+export function isHit(signal: Signal, move: number, timeframe: Timeframe) {
+  switch (signal) {
+    case "BUY":
+      return move > 0;
+    case "SELL":
+      return move < 0;
+    default:
+      return Math.abs(move) <= HORIZONS[timeframe].holdBand;
+  }
+}
+
+// Wilson score interval, well behaved for small samples and extreme rates
+function wilsonInterval(hits: number, total: number) {
+  if (total === 0) return { lower: 0, upper: 0 };
+
+  const p = hits / total;
+  const denominator = 1 + (Z_95 * Z_95) / total;
+  const centre = p + (Z_95 * Z_95) / (2 * total);
+  const margin =
+    Z_95 *
+    Math.sqrt((p * (1 - p)) / total + (Z_95 * Z_95) / (4 * total * total));
+
+  return {
+    lower: (centre - margin) / denominator,
+    upper: (centre + margin) / denominator,
+  };
+}
+
+/**
+ * The move a signal at bar `t` is judged on: the next bar's open-to-close
+ * for "today", otherwise close-to-close from bar `t` to the end of the
+ * horizon. Only valid while that bar exists (see lastScorableBar).
+ */
+export function realizedMove(
+  stockData: StockData[],
+  t: number,
+  timeframe: Timeframe,
+) {
+  if (timeframe === "today") {
+    const next = stockData[t + 1];
+    return (next.close - next.open) / next.open;
+  }
+  const base = stockData[t].close;
+  return (stockData[t + HORIZONS[timeframe].bars].close - base) / base;
+}
+
+/** One past the last bar whose signal has a known outcome */
+export function lastScorableBar(stockData: StockData[], timeframe: Timeframe) {
+  return stockData.length - HORIZONS[timeframe].bars;
+}
+
+const toPercent = (value: number) => Math.round(value * 10000) / 100;
+
+export interface SignalScore {
+  hits: number;
+  total: number;
+  signals: Record<Signal, number>;
+}
+
+/**
+ * Score the signals made at bars `start` to `end - 1` against the move over
+ * their horizon (see realizedMove). Every prediction sees only `stockData.slice(0, t + 1)`,
+ * so nothing after the signal bar can leak into its features. Callers that
+ * score overlapping ranges pass one `signals` map to compute each bar once.
+ */
+export function scoreSignals(
+  stockData: StockData[],
+  timeframe: Timeframe,
+  start: number,
+  end: number,
+  strategy: StrategyConfig = getStrategy(),
+  signals = new Map<number, Signal>(),
+): SignalScore {
+  const score: SignalScore = {
+    hits: 0,
+    total: 0,
+    signals: { BUY: 0, SELL: 0, HOLD: 0 },
+  };
+
+  for (
+    let t = Math.max(start, WARMUP_BARS);
+    t < Math.min(end, lastScorableBar(stockData, timeframe));
+    t++
+  ) {
+    if (!signals.has(t)) {
+      const { prediction } = makePrediction(
+        stockData.slice(0, t + 1),
+        timeframe,
+        strategy,
+      );
+      signals.set(t, prediction);
+    }
+    const prediction = signals.get(t);
+    const move = realizedMove(stockData, t, timeframe);
+
+    if (isHit(prediction, move, timeframe)) score.hits++;
+    score.total++;
+    score.signals[prediction]++;
+  }
+
+  return score;
+}
+
+export function summarizeScore({
+  hits,
+  total,
+}: Pick<SignalScore, "hits" | "total">): AccuracyReport {
+  const interval = wilsonInterval(hits, total);
+
+  return {
+    hitRate: total > 0 ? toPercent(hits / total) : 0,
+    sampleSize: total,
+    confidenceInterval: {
+      lower: toPercent(interval.lower),
+      upper: toPercent(interval.upper),
+    },
+  };
+}
+
+/**
+ * First bar whose signal a strategy can be scored on without look-ahead. A
+ * trained model has seen its symbols' bars through `trainedThrough`, so
+ * only later ones count. Null when a model trained on the symbol does not
+ * record how far: any bar may have been trained on.
+ */
+export function firstUnseenBar(
+  stockData: StockData[],
+  strategy: StrategyConfig,
+  symbol: string,
+): number | null {
+  if (strategy.kind !== "model" || !strategy.symbols.includes(symbol)) {
+    return 0;
+  }
+  const last = strategy.trainedThrough?.[symbol];
+  if (!last) return null;
+  const index = stockData.findIndex((bar) => bar.date > last);
+  return index === -1 ? stockData.length : index;
+}
+
+/**
+ * Replay makePrediction over the symbol's last ACCURACY_WINDOW scorable
+ * bars, using only the bars known at each point, and score each signal
+ * against the move over its horizon. Bars a model was trained on are
+ * skipped (see firstUnseenBar), or the report is flagged in-sample.
+ */
+export function measureAccuracy(
+  stockData: StockData[],
+  timeframe: Timeframe,
+  strategy: StrategyConfig = getStrategy(),
+  symbol?: string,
+): AccuracyReport {
+  const unseen =
+    symbol === undefined ? 0 : firstUnseenBar(stockData, strategy, symbol);
+  const start = Math.max(
+    lastScorableBar(stockData, timeframe) - ACCURACY_WINDOW,
+    unseen ?? 0,
+  );
+  const report = summarizeScore(
+    scoreSignals(stockData, timeframe, start, stockData.length, strategy),
+  );
+  return unseen === null ? { ...report, inSample: true } : report;
+}
@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_BACKTEST_OPTIONS, runBacktest } from "./backtest";
+import { generateSyntheticData } from "./providers/synthetic";
+import { RuleStrategy } from "./strategies";
+
+const bars = generateSyntheticData("TEST", {
+  regime: "mean-reverting",
+  days: 200,
+  endDate: "2024-06-28",
+});
+
+// Votes BUY at every bar, so it always holds a long position
+const alwaysBuy: RuleStrategy = {
+  name: "always-buy",
+  version: 1,
+  description: "",
+  rsiMethod: "wilder",
+  rules: [
+    {
+      id: "buy",
+      description: "",
+      when: [{ feature: "rsi", gte: 0 }],
+      score: 1,
+    },
+  ],
+  adjustments: [],
+  scoreThreshold: 0,
+  timeframes: {
+    today: {
+      scoreMultiplier: 1,
+      confidenceMultiplier: 1,
+      confidenceThreshold: 0,
+    },
+    tomorrow: {
+      scoreMultiplier: 1,
+      confidenceMultiplier: 1,
+      confidenceThreshold: 0,
+    },
+  },
+};
+
+describe("runBacktest", () => {
+  it("should reconcile final equity with the trade list", () => {
+    const result = runBacktest("TEST", bars, {
+      ...DEFAULT_BACKTEST_OPTIONS,
+      allowShort: true,
+    });
+
+    const totalPnl = result.trades.reduce((sum, trade) => sum + trade.pnl, 0);
+    expect(result.equityCurve[0].equity).toBe(10000);
+    expect(result.finalEquity).toBeCloseTo(10000 + totalPnl, 0);
+    expect(result.metrics.tradeCount).toBe(result.trades.length);
+  });
+
+  it("should never fill a trade on the bar that produced its signal", () => {
+    const result = runBacktest("TEST", bars, DEFAULT_BACKTEST_OPTIONS);
+    for (const trade of result.trades) {
+      expect(trade.entryDate > result.from).toBe(true);
+    }
+  });
+
+  it("should cost more with higher commissions and slippage", () => {
+    const cheap = runBacktest("TEST", bars, {
+      ...DEFAULT_BACKTEST_OPTIONS,
+      strategy: alwaysBuy,
+      commissionRate: 0,
+      slippageBps: 0,
+    });
+    const expensive = runBacktest("TEST", bars, {
+      ...DEFAULT_BACKTEST_OPTIONS,
+      strategy: alwaysBuy,
+      commissionRate: 0.01,
+      slippageBps: 50,
+    });
+
+    expect(cheap.trades).toHaveLength(1);
+    expect(expensive.finalEquity).toBeLessThan(cheap.finalEquity);
+  });
+
+  it("should restrict signals to the requested date range", () => {
+    const result = runBacktest("TEST", bars, {
+      ...DEFAULT_BACKTEST_OPTIONS,
+      from: bars[120].date,
+      to: bars[180].date,
+    });
+    expect(result.from).toBe(bars[120].date);
+    expect(result.to).toBe(bars[180].date);
+    expect(result.equityCurve).toHaveLength(61);
+  });
+});
@@ -0,0 +1,224 @@
+import { BacktestRequest, BacktestResponse, BacktestTrade } from "@shared/api";
+import { firstUnseenBar, WARMUP_BARS } from "./accuracy";
+import { makePrediction } from "./prediction";
+import { StockData } from "./providers";
+import { getStrategy, StrategyConfig, strategyId } from "./strategies";
+
+const TRADING_DAYS = 252;
+
+export type BacktestOptions = Required<
+  Omit<BacktestRequest, "symbol" | "provider" | "from" | "to" | "strategy">
+> &
+  Pick<BacktestRequest, "from" | "to"> & { strategy: StrategyConfig };
+
+export const DEFAULT_BACKTEST_OPTIONS: BacktestOptions = {
+  strategy: getStrategy(),
+  timeframe: "tomorrow",
+  initialCapital: 10000,
+  commissionRate: 0.001,
+  commissionPerTrade: 0,
+  slippageBps: 5,
+  positionSizing: { method: "percent-equity", value: 100 },
+  allowShort: false,
+};
+
+export class BacktestRangeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BacktestRangeError";
+  }
+}
+
+interface Position {
+  side: BacktestTrade["side"];
+  quantity: number;
+  entryDate: string;
+  entryPrice: number;
+  entryCommission: number;
+}
+
+const round = (value: number, digits = 2) =>
+  Math.round(value * 10 ** digits) / 10 ** digits;
+
+function mean(values: number[]) {
+  return values.reduce((sum, v) => sum + v, 0) / (values.length || 1);
+}
+
+function annualisedRatio(returns: number[], downsideOnly: boolean) {
+  if (returns.length < 2) return 0;
+  const avg = mean(returns);
+  const deviations = downsideOnly
+    ? returns.map((r) => Math.min(r, 0) ** 2)
+    : returns.map((r) => (r - avg) ** 2);
+  const deviation = Math.sqrt(
+    deviations.reduce((sum, d) => sum + d, 0) / (returns.length - 1),
+  );
+  if (deviation === 0) return 0;
+  return (avg / deviation) * Math.sqrt(TRADING_DAYS);
+}
+
+function maxDrawdown(equity: number[]) {
+  let peak = equity[0] ?? 0;
+  let worst = 0;
+  for (const value of equity) {
+    peak = Math.max(peak, value);
+    // Nothing left to lose once equity has never been above zero
+    if (peak > 0) worst = Math.max(worst, (peak - value) / peak);
+  }
+  return worst;
+}
+
+/**
+ * Simulate acting on makePrediction signals. The signal computed from bars up
+ * to a close is filled at the next bar's open, so no trade uses information
+ * it could not have had. BUY opens a long (covering any short), SELL closes a
+ * long and, with allowShort, opens a short; HOLD keeps the current position.
+ * Anything still open is closed at the last close of the range. A trained
+ * model only trades after the bars it was trained on (see firstUnseenBar).
+ */
+export function runBacktest(
+  symbol: string,
+  stockData: StockData[],
+  options: BacktestOptions,
+): Omit<BacktestResponse, "dataSource"> {
+  const fromIndex = options.from
+    ? stockData.findIndex((bar) => bar.date >= options.from)
+    : 0;
+  let last = stockData.length - 1;
+  if (options.to) {
+    while (last >= 0 && stockData[last].date > options.to) last--;
+  }
+  const unseen = firstUnseenBar(stockData, options.strategy, symbol);
+  const first = Math.max(WARMUP_BARS, fromIndex, unseen ?? 0);
+
+  if (fromIndex === -1 || last - first < 1) {
+    throw new BacktestRangeError(
+      unseen !== null && unseen > Math.max(WARMUP_BARS, fromIndex)
+        ? `Not enough bars to backtest ${symbol} in the requested range after the bars ${strategyId(options.strategy)} was trained on`
+        : `Not enough bars to backtest ${symbol} in the requested range; ${WARMUP_BARS} bars of prior history are needed`,
+    );
+  }
+
+  const slippage = options.slippageBps / 10000;
+  const trades: BacktestTrade[] = [];
+  const equityCurve: BacktestResponse["equityCurve"] = [];
+  let cash = options.initialCapital;
+  let position: Position | null = null;
+  let barsInMarket = 0;
+
+  const commission = (value: number) =>
+    options.commissionPerTrade + Math.abs(value) * options.commissionRate;
+
+  const markToMarket = (price: number) => {
+    if (!position) return cash;
+    const direction = position.side === "LONG" ? 1 : -1;
+    return cash + direction * position.quantity * price;
+  };
+
+  const open = (side: Position["side"], bar: StockData) => {
+    const equity = markToMarket(bar.open);
+    const budget =
+      options.positionSizing.method === "percent-equity"
+        ? (equity * options.positionSizing.value) / 100
+        : Math.min(options.positionSizing.value, equity);
+    const price = bar.open * (side === "LONG" ? 1 + slippage : 1 - slippage);
+    const quantity = Math.floor(budget / price);
+    if (quantity <= 0) return;
+
+    const fee = commission(quantity * price);
+    const direction = side === "LONG" ? 1 : -1;
+    cash -= direction * quantity * price + fee;
+    position = {
+      side,
+      quantity,
+      entryDate: bar.date,
+      entryPrice: price,
+      entryCommission: fee,
+    };
+  };
+
+  const close = (date: string, rawPrice: number) => {
+    if (!position) return;
+    const { side, quantity, entryPrice, entryDate, entryCommission } = position;
+    const price = rawPrice * (side === "LONG" ? 1 - slippage : 1 + slippage);
+    const fee = commission(quantity * price);
+    const direction = side === "LONG" ? 1 : -1;
+    cash += direction * quantity * price - fee;
+
+    const pnl =
+      direction * quantity * (price - entryPrice) - entryCommission - fee;
+    trades.push({
+      side,
+      entryDate,
+      entryPrice: round(entryPrice, 4),
+      exitDate: date,
+      exitPrice: round(price, 4),
+      quantity,
+      pnl: round(pnl),
+      returnPct: round((pnl / (quantity * entryPrice)) * 100),
+    });
+    position = null;
+  };
+
+  equityCurve.push({ date: stockData[first].date, equity: round(cash) });
+
+  for (let t = first; t < last; t++) {
+    const { prediction } = makePrediction(
+      stockData.slice(0, t + 1),
+      options.timeframe,
+      options.strategy,
+    );
+    const next = stockData[t + 1];
+
+    if (prediction === "BUY" && position?.side !== "LONG") {
+      close(next.date, next.open);
+      open("LONG", next);
+    } else if (prediction === "SELL" && position?.side !== "SHORT") {
+      close(next.date, next.open);
+      if (options.allowShort) open("SHORT", next);
+    }
+
+    if (position) barsInMarket++;
+    equityCurve.push({
+      date: next.date,
+      equity: round(markToMarket(next.close)),
+    });
+  }
+
+  close(stockData[last].date, stockData[last].close);
+  equityCurve[equityCurve.length - 1].equity = round(cash);
+
+  const values = equityCurve.map((point) => point.equity);
+  const returns = values
+    .slice(1)
+    .map((value, i) => (values[i] > 0 ? value / values[i] - 1 : 0));
+  const totalReturn = cash / options.initialCapital - 1;
+  const years = returns.length / TRADING_DAYS;
+  const cagr =
+    years > 0 && cash > 0
+      ? (cash / options.initialCapital) ** (1 / years) - 1
+      : -1;
+  const wins = trades.filter((trade) => trade.pnl > 0).length;
+
+  return {
+    symbol,
+    strategy: strategyId(options.strategy),
+    from: stockData[first].date,
+    to: stockData[last].date,
+    initialCapital: options.initialCapital,
+    finalEquity: round(cash),
+    metrics: {
+      totalReturn: round(totalReturn * 100),
+      cagr: round(cagr * 100),
+      sharpe: round(annualisedRatio(returns, false)),
+      sortino: round(annualisedRatio(returns, true)),
+      maxDrawdown: round(maxDrawdown(values) * 100),
+      winRate: trades.length > 0 ? round((wins / trades.length) * 100) : 0,
+      tradeCount: trades.length,
+      exposure: round((barsInMarket / (last - first)) * 100),
+    },
+    equityCurve,
+    trades,
+    ...(unseen === null && { inSample: true }),
+  };
+}
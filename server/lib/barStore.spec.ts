@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { expireSeries, loadDailyBars, mergeBars, readSeries } from "./barStore";
+import { MarketDataProvider, StockData } from "./providers";
+
+const bar = (date: string, close: number): StockData => ({
+  date,
+  open: close,
+  high: close,
+  low: close,
+  close,
+  volume: 1000,
+});
+
+function fakeProvider(responses: StockData[][]) {
+  const provider: MarketDataProvider = {
+    id: "fake",
+    name: "Fake",
+    synthetic: false,
+    storeBars: true,
+    isAvailable: () => true,
+    fetchDaily: vi.fn(async () => {
+      const next = responses.shift();
+      if (!next) throw new Error("quota exhausted");
+      return next;
+    }),
+  };
+  return provider;
+}
+
+describe("mergeBars", () => {
+  it("should keep stored history and let fetched bars win on a date", () => {
+    expect(
+      mergeBars(
+        [bar("2024-01-01", 1), bar("2024-01-02", 2)],
+        [bar("2024-01-02", 2.5), bar("2024-01-03", 3)],
+      ),
+    ).toEqual([
+      bar("2024-01-01", 1),
+      bar("2024-01-02", 2.5),
+      bar("2024-01-03", 3),
+    ]);
+  });
+});
+
+describe("loadDailyBars", () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(tmpdir(), "bars-"));
+    vi.stubEnv("BAR_STORE_DIR", directory);
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2024-01-05T12:00:00Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("should only ask for bars from the last stored one on", async () => {
+    const provider = fakeProvider([
+      [bar("2024-01-01", 1), bar("2024-01-02", 2)],
+      [bar("2024-01-03", 3)],
+    ]);
+
+    await loadDailyBars(provider, "AAPL");
+    // Within the refresh interval the store answers on its own
+    expect((await loadDailyBars(provider, "AAPL")).bars).toHaveLength(2);
+    expect(provider.fetchDaily).toHaveBeenCalledTimes(1);
+
+    vi.setSystemTime(new Date("2024-01-06T12:00:00Z"));
+    const { bars, fetchedAt } = await loadDailyBars(provider, "AAPL");
+
+    expect(provider.fetchDaily).toHaveBeenLastCalledWith("AAPL", "2024-01-02");
+    expect(bars.map((b) => b.date)).toEqual([
+      "2024-01-01",
+      "2024-01-02",
+      "2024-01-03",
+    ]);
+    expect(fetchedAt).toBe("2024-01-06T12:00:00.000Z");
+    expect((await readSeries("fake", "AAPL")).bars).toEqual(bars);
+  });
+
+  it("should replace a last bar stored before its session closed", async () => {
+    const provider = fakeProvider([
+      [bar("2024-01-04", 1), bar("2024-01-05", 2)],
+      [bar("2024-01-05", 2.5)],
+    ]);
+    await loadDailyBars(provider, "AAPL");
+
+    vi.setSystemTime(new Date("2024-01-06T12:00:00Z"));
+    const { bars } = await loadDailyBars(provider, "AAPL");
+
+    expect(provider.fetchDaily).toHaveBeenLastCalledWith("AAPL", "2024-01-05");
+    expect(bars).toEqual([bar("2024-01-04", 1), bar("2024-01-05", 2.5)]);
+    expect((await readSeries("fake", "AAPL")).bars).toEqual(bars);
+  });
+
+  it("should serve stored bars when the provider fails", async () => {
+    const provider = fakeProvider([[bar("2024-01-01", 1)]]);
+    await loadDailyBars(provider, "AAPL");
+
+    vi.setSystemTime(new Date("2024-01-06T12:00:00Z"));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    expect(await loadDailyBars(provider, "AAPL")).toEqual({
+      bars: [bar("2024-01-01", 1)],
+      fetchedAt: "2024-01-05T12:00:00.000Z",
+      stale: true,
+    });
+    await expect(loadDailyBars(provider, "MSFT")).rejects.toThrow(
+      "quota exhausted",
+    );
+  });
+
+  it("should drop stored bars the fetched ones do not reach back to", async () => {
+    const provider = fakeProvider([
+      [bar("2024-01-01", 1), bar("2024-01-02", 2)],
+      [bar("2024-01-15", 3), bar("2024-01-16", 4)],
+    ]);
+    await loadDailyBars(provider, "AAPL");
+
+    vi.setSystemTime(new Date("2024-01-16T12:00:00Z"));
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const { bars } = await loadDailyBars(provider, "AAPL");
+
+    expect(bars.map((b) => b.date)).toEqual(["2024-01-15", "2024-01-16"]);
+    expect(console.warn).toHaveBeenCalled();
+  });
+
+  it("should ask the provider again once a series is expired", async () => {
+    const provider = fakeProvider([
+      [bar("2024-01-01", 1), bar("2024-01-02", 2)],
+      [bar("2024-01-03", 3)],
+    ]);
+    await loadDailyBars(provider, "AAPL");
+
+    expect(await expireSeries("MSFT")).toBe(0);
+    expect(await expireSeries("AAPL")).toBe(1);
+    const { bars } = await loadDailyBars(provider, "AAPL");
+
+    expect(provider.fetchDaily).toHaveBeenCalledTimes(2);
+    expect(bars).toHaveLength(3);
+    expect((await readSeries("fake", "AAPL")).expired).toBeUndefined();
+  });
+});
@@ -0,0 +1,194 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { MarketDataProvider, StockData } from "./providers";
+
+export const DEFAULT_BAR_STORE_DIR = "data/bars";
+
+// A series fetched this recently is served without asking the provider,
+// which also spares the quota over weekends and holidays
+const REFRESH_INTERVAL = 6 * 60 * 60 * 1000; // 6 hours
+
+// Weekdays without a bar that still count as one series: exchange holidays,
+// which can run to a few days in a row
+const MAX_MISSING_WEEKDAYS = 5;
+
+/** One symbol's bars from one provider, as kept on disk */
+export interface StoredSeries {
+  symbol: string;
+  provider: string;
+  /** When the provider was last asked, as an ISO timestamp */
+  fetchedAt: string;
+  /** Set by expireSeries: the next load asks the provider regardless */
+  expired?: boolean;
+  bars: StockData[];
+}
+
+const storeDirectory = () => process.env.BAR_STORE_DIR || DEFAULT_BAR_STORE_DIR;
+
+function seriesFile(providerId: string, symbol: string) {
+  return path.join(storeDirectory(), providerId, `${symbol}.json`);
+}
+
+/** The stored series, or null when there is none or it cannot be read */
+export async function readSeries(
+  providerId: string,
+  symbol: string,
+): Promise<StoredSeries | null> {
+  const file = seriesFile(providerId, symbol);
+  try {
+    return JSON.parse(await fs.readFile(file, "utf8"));
+  } catch (error) {
+    if (error.code !== "ENOENT") {
+      console.error(`Ignoring unreadable bar store file ${file}:`, error);
+    }
+    return null;
+  }
+}
+
+// Written to a temporary file first so a crash never leaves half a series
+async function writeSeries(series: StoredSeries) {
+  const file = seriesFile(series.provider, series.symbol);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const temporary = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(temporary, JSON.stringify(series));
+  await fs.rename(temporary, file);
+}
+
+/**
+ * Stored bars with fetched ones merged in, oldest first. A fetched bar
+ * replaces a stored one on the same date, which corrects a session that was
+ * stored before it closed.
+ */
+export function mergeBars(
+  stored: StockData[],
+  fetched: StockData[],
+): StockData[] {
+  const byDate = new Map(stored.map((bar) => [bar.date, bar]));
+  for (const bar of fetched) byDate.set(bar.date, bar);
+  return Array.from(byDate.values()).sort((a, b) =>
+    a.date.localeCompare(b.date),
+  );
+}
+
+// Weekdays strictly between two dates
+function weekdaysBetween(from: string, to: string) {
+  const day = new Date(`${from}T00:00:00Z`);
+  const end = new Date(`${to}T00:00:00Z`);
+  let count = 0;
+  for (day.setUTCDate(day.getUTCDate() + 1); day < end; ) {
+    if (day.getUTCDay() !== 0 && day.getUTCDay() !== 6) count++;
+    day.setUTCDate(day.getUTCDate() + 1);
+  }
+  return count;
+}
+
+/**
+ * Whether fetched bars (oldest first) leave a hole after the stored ones, as
+ * when a provider only returns its most recent bars and the store has not
+ * been topped up for longer than that
+ */
+function leavesGap(stored: StockData[], fetched: StockData[]) {
+  const last = stored[stored.length - 1];
+  return (
+    last !== undefined &&
+    fetched.length > 0 &&
+    fetched[0].date > last.date &&
+    weekdaysBetween(last.date, fetched[0].date) > MAX_MISSING_WEEKDAYS
+  );
+}
+
+/** Bars loaded through the store, with when the provider was last asked */
+export interface LoadedBars {
+  bars: StockData[];
+  /** ISO timestamp */
+  fetchedAt: string;
+  /** True when the provider failed and only stored bars were served */
+  stale: boolean;
+}
+
+/**
+ * Daily bars from the on-disk store, topped up from the provider. The first
+ * load takes all the provider offers; later ones only ask for bars from the
+ * last stored date on, refetching that bar in case it was stored before its
+ * session closed, and none within REFRESH_INTERVAL of the last fetch.
+ * Stored history is kept, so it grows past what one response holds, unless
+ * the fetched bars do not reach back to it: indicators must not run across
+ * the hole, so the older bars are dropped. When the provider fails, bars
+ * already stored are served instead.
+ */
+export async function loadDailyBars(
+  provider: MarketDataProvider,
+  symbol: string,
+): Promise<LoadedBars> {
+  const stored = await readSeries(provider.id, symbol);
+  if (
+    stored &&
+    !stored.expired &&
+    Date.now() - new Date(stored.fetchedAt).getTime() < REFRESH_INTERVAL
+  ) {
+    return { bars: stored.bars, fetchedAt: stored.fetchedAt, stale: false };
+  }
+
+  const since = stored?.bars[stored.bars.length - 1]?.date;
+  let fetched: StockData[];
+  try {
+    fetched = await provider.fetchDaily(symbol, since);
+  } catch (error) {
+    if (!stored?.bars.length) throw error;
+    console.error(
+      `Serving stored bars for ${symbol}; ${provider.name} failed:`,
+      error,
+    );
+    return { bars: stored.bars, fetchedAt: stored.fetchedAt, stale: true };
+  }
+
+  let history = stored?.bars ?? [];
+  if (leavesGap(history, fetched)) {
+    console.warn(
+      `${provider.name} returned no bars for ${symbol} between ${history[history.length - 1].date} and ${fetched[0].date}; dropping ${history.length} stored bars before the gap`,
+    );
+    history = [];
+  }
+
+  const fetchedAt = new Date().toISOString();
+  const bars = mergeBars(history, fetched);
+  if (bars.length > 0) {
+    await writeSeries({ symbol, provider: provider.id, fetchedAt, bars });
+  }
+  return { bars, fetchedAt, stale: false };
+}
+
+/**
+ * Make the next load of every stored series, or only a symbol's, ask its
+ * provider for new bars. The bars themselves are kept. Returns how many
+ * series were expired.
+ */
+export async function expireSeries(symbol?: string): Promise<number> {
+  let providers: string[];
+  try {
+    const entries = await fs.readdir(storeDirectory(), {
+      withFileTypes: true,
+    });
+    providers = entries
+      .filter((entry) => entry.isDirectory())
+      .map((entry) => entry.name);
+  } catch (error) {
+    if (error.code === "ENOENT") return 0;
+    throw error;
+  }
+
+  let expired = 0;
+  for (const providerId of providers) {
+    const files = symbol
+      ? [`${symbol}.json`]
+      : await fs.readdir(path.join(storeDirectory(), providerId));
+    for (const file of files.filter((name) => name.endsWith(".json"))) {
+      const series = await readSeries(providerId, file.slice(0, -5));
+      if (series && !series.expired) {
+        await writeSeries({ ...series, expired: true });
+        expired++;
+      }
+    }
+  }
+  return expired;
+}
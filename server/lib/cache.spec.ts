@@ -0,0 +1,75 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { cacheKey, LruCache } from "./cache";
+
+describe("LruCache", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should evict the least recently used entry", () => {
+    const cache = new LruCache<number>("daily", 60_000, 2);
+    cache.set("a", 1);
+    cache.set("b", 2);
+    // Reading "a" makes "b" the least recently used
+    expect(cache.get("a")).toBe(1);
+    cache.set("c", 3);
+
+    expect(cache.get("b")).toBeUndefined();
+    expect(cache.get("a")).toBe(1);
+    expect(cache.get("c")).toBe(3);
+    expect(cache.stats()).toMatchObject({
+      size: 2,
+      hits: 3,
+      misses: 1,
+      hitRate: 75,
+      evictions: 1,
+    });
+  });
+
+  it("should miss entries past their TTL", () => {
+    vi.useFakeTimers();
+    const cache = new LruCache<number>("predictions", 1000, 10);
+    cache.set("a", 1);
+
+    vi.advanceTimersByTime(999);
+    expect(cache.get("a")).toBe(1);
+    vi.advanceTimersByTime(1);
+    expect(cache.get("a")).toBeUndefined();
+    expect(cache.stats()).toMatchObject({
+      size: 0,
+      hits: 1,
+      misses: 1,
+      expirations: 1,
+    });
+  });
+
+  it("should serve stale entries within the stale window", () => {
+    vi.useFakeTimers();
+    const cache = new LruCache<number>("daily", 1000, 10, 5000);
+    cache.set("a", 1);
+
+    vi.advanceTimersByTime(1000);
+    expect(cache.get("a")).toBeUndefined();
+    expect(cache.getStale("a")).toEqual({ value: 1, stale: true });
+    vi.advanceTimersByTime(5000);
+    expect(cache.getStale("a")).toBeUndefined();
+    expect(cache.stats()).toMatchObject({
+      size: 0,
+      staleHits: 1,
+      misses: 2,
+      expirations: 1,
+    });
+  });
+
+  it("should invalidate one symbol's entries or all of them", () => {
+    const cache = new LruCache<number>("daily", 60_000, 10);
+    cache.set(cacheKey("AAPL", "csv"), 1);
+    cache.set(cacheKey("AAPL", "synthetic"), 2);
+    cache.set(cacheKey("MSFT", "csv"), 3);
+
+    expect(cache.invalidate("AAPL")).toBe(2);
+    expect(cache.get(cacheKey("MSFT", "csv"))).toBe(3);
+    expect(cache.invalidate()).toBe(1);
+    expect(cache.stats().size).toBe(0);
+  });
+});
@@ -0,0 +1,168 @@
+import { CacheNamespace, CacheStats } from "@shared/api";
+
+const MINUTE = 60 * 1000;
+
+/**
+ * How long each kind of entry stays fresh, how much longer it may be served
+ * stale while a refresh runs, and how many are kept. Daily bars only change
+ * once a session closes; intraday bars change by the minute.
+ */
+export const CACHE_NAMESPACES: Record<
+  CacheNamespace,
+  { ttlMs: number; staleMs: number; maxEntries: number }
+> = {
+  daily: { ttlMs: 30 * MINUTE, staleMs: 24 * 60 * MINUTE, maxEntries: 200 },
+  intraday: { ttlMs: 1 * MINUTE, staleMs: 0, maxEntries: 100 },
+  predictions: { ttlMs: 5 * MINUTE, staleMs: 0, maxEntries: 500 },
+};
+
+// Separates the parts of a key; the symbol always comes first
+const KEY_SEPARATOR = "|";
+
+/**
+ * Key for a symbol's entry. Keys start with the symbol so that one symbol
+ * can be invalidated in every namespace.
+ */
+export function cacheKey(symbol: string, ...parts: string[]) {
+  return [symbol, ...parts].join(KEY_SEPARATOR);
+}
+
+const keySymbol = (key: string) => key.split(KEY_SEPARATOR, 1)[0];
+
+interface Entry<V> {
+  value: V;
+  expiresAt: number;
+}
+
+/**
+ * Least-recently-used cache with one TTL for all its entries. A read moves
+ * the entry to the back of the eviction order. Past its TTL an entry is
+ * stale: `get` misses it, but `getStale` still serves it for another
+ * `staleMs`, after which it is dropped.
+ */
+export class LruCache<V> {
+  // Map iteration follows insertion order, so the first key is the LRU one
+  private readonly entries = new Map<string, Entry<V>>();
+  private hits = 0;
+  private staleHits = 0;
+  private misses = 0;
+  private evictions = 0;
+  private expirations = 0;
+
+  constructor(
+    readonly namespace: CacheNamespace,
+    readonly ttlMs: number,
+    readonly maxEntries: number,
+    readonly staleMs = 0,
+  ) {}
+
+  private find(key: string) {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    const now = Date.now();
+    if (entry.expiresAt + this.staleMs <= now) {
+      this.entries.delete(key);
+      this.expirations++;
+      return undefined;
+    }
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return { value: entry.value, stale: entry.expiresAt <= now };
+  }
+
+  /** A fresh entry, or undefined */
+  get(key: string): V | undefined {
+    const found = this.find(key);
+    if (!found || found.stale) {
+      this.misses++;
+      return undefined;
+    }
+    this.hits++;
+    return found.value;
+  }
+
+  /** A fresh or stale entry, saying which, or undefined */
+  getStale(key: string): { value: V; stale: boolean } | undefined {
+    const found = this.find(key);
+    if (!found) {
+      this.misses++;
+      return undefined;
+    }
+    if (found.stale) this.staleHits++;
+    else this.hits++;
+    return found;
+  }
+
+  set(key: string, value: V) {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + this.ttlMs });
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value);
+      this.evictions++;
+    }
+  }
+
+  /** Drop every entry, or only a symbol's. Returns how many were dropped. */
+  invalidate(symbol?: string) {
+    let removed = 0;
+    for (const key of Array.from(this.entries.keys())) {
+      if (symbol === undefined || keySymbol(key) === symbol) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  stats(): CacheStats {
+    const served = this.hits + this.staleHits;
+    const lookups = served + this.misses;
+    return {
+      namespace: this.namespace,
+      ttlMs: this.ttlMs,
+      staleMs: this.staleMs,
+      maxEntries: this.maxEntries,
+      size: this.entries.size,
+      hits: this.hits,
+      staleHits: this.staleHits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? Math.round((served / lookups) * 10000) / 100 : 0,
+      evictions: this.evictions,
+      expirations: this.expirations,
+    };
+  }
+}
+
+const caches = new Map<CacheNamespace, LruCache<unknown>>();
+
+/** The shared cache for a namespace, created on first use */
+export function getCache<V>(namespace: CacheNamespace): LruCache<V> {
+  if (!caches.has(namespace)) {
+    const { ttlMs, staleMs, maxEntries } = CACHE_NAMESPACES[namespace];
+    caches.set(namespace, new LruCache(namespace, ttlMs, maxEntries, staleMs));
+  }
+  return caches.get(namespace) as LruCache<V>;
+}
+
+export function cacheStats(): CacheStats[] {
+  return (Object.keys(CACHE_NAMESPACES) as CacheNamespace[]).map((namespace) =>
+    getCache(namespace).stats(),
+  );
+}
+
+/**
+ * Drop entries from one namespace or all of them, optionally only a
+ * symbol's. Returns how many were dropped.
+ */
+export function invalidateCaches(
+  namespace?: CacheNamespace,
+  symbol?: string,
+): number {
+  const namespaces = namespace
+    ? [namespace]
+    : (Object.keys(CACHE_NAMESPACES) as CacheNamespace[]);
+  return namespaces.reduce(
+    (removed, name) => removed + getCache(name).invalidate(symbol),
+    0,
+  );
+}
@@ -0,0 +1,27 @@
+import { describe, it, expect } from "vitest";
+import { mapWithConcurrency } from "./concurrency";
+
+describe("mapWithConcurrency", () => {
+  it("should keep order while capping calls in flight", async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const results = await mapWithConcurrency(
+      [30, 10, 20, 0, 5],
+      2,
+      async (delay, index) => {
+        inFlight++;
+        peak = Math.max(peak, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        inFlight--;
+        return index;
+      },
+    );
+
+    expect(results).toEqual([0, 1, 2, 3, 4]);
+    expect(peak).toBe(2);
+  });
+
+  it("should handle an empty list", async () => {
+    expect(await mapWithConcurrency([], 3, async (x) => x)).toEqual([]);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import { ACCURACY_WINDOW } from "./accuracy";
+import { runEnsemble } from "./ensemble";
+import { generateSyntheticData } from "./providers/synthetic";
+import { RuleStrategy } from "./strategies";
+
+const bars = generateSyntheticData("TEST", { endDate: "2024-06-28" });
+
+// A strategy that always votes one way with full confidence
+const constant = (name: string, score: number): RuleStrategy => ({
+  name,
+  version: 1,
+  description: "",
+  rsiMethod: "wilder",
+  rules: [
+    { id: name, description: "", when: [{ feature: "rsi", gte: 0 }], score },
+  ],
+  adjustments: [],
+  scoreThreshold: 0,
+  timeframes: {
+    today: {
+      scoreMultiplier: 1,
+      confidenceMultiplier: 1,
+      confidenceThreshold: 0,
+    },
+    tomorrow: {
+      scoreMultiplier: 1,
+      confidenceMultiplier: 1,
+      confidenceThreshold: 0,
+    },
+  },
+});
+
+const bull = constant("bull", 1);
+const bull2 = { ...bull, name: "bull-two" };
+const bear = constant("bear", -1);
+
+describe("runEnsemble", () => {
+  it("should follow the majority and report the dissent", () => {
+    const result = runEnsemble(
+      bars,
+      "tomorrow",
+      [bull, bull2, bear],
+      "majority",
+    );
+
+    expect(result.prediction).toBe("BUY");
+    expect(result.confidence).toBe(67);
+    expect(result.ensemble.agreement).toBe(66.67);
+    expect(result.ensemble.votes.map((vote) => vote.prediction)).toEqual([
+      "BUY",
+      "BUY",
+      "SELL",
+    ]);
+  });
+
+  it("should hold on a tied vote", () => {
+    const result = runEnsemble(bars, "tomorrow", [bull, bear], "majority");
+    expect(result.prediction).toBe("HOLD");
+    expect(result.ensemble.agreement).toBe(0);
+  });
+
+  it("should weight members by their past hit rate", () => {
+    const result = runEnsemble(bars, "tomorrow", [bull, bear], "weighted");
+    const [bullVote, bearVote] = result.ensemble.votes;
+
+    expect(bullVote.weight + bearVote.weight).toBeCloseTo(100, 1);
+    // Whoever was right more often carries the vote
+    expect(result.prediction).toBe(
+      bullVote.weight > bearVote.weight ? "BUY" : "SELL",
+    );
+  });
+
+  it("should return probabilities when stacking", () => {
+    const result = runEnsemble(bars, "today", [bull, bear], "stacking");
+    const { BUY, SELL, HOLD } = result.probabilities;
+    expect(BUY + SELL + HOLD).toBeCloseTo(100, 0);
+    expect(result.accuracy.sampleSize).toBe(bars.length - 50 - 1);
+  });
+
+  it("should only replay the most recent signals", () => {
+    const long = generateSyntheticData("TEST", {
+      endDate: "2024-06-28",
+      days: 400,
+    });
+    const result = runEnsemble(long, "today", [bull, bear], "stacking");
+    expect(result.accuracy.sampleSize).toBe(ACCURACY_WINDOW);
+  });
+});
@@ -0,0 +1,269 @@
+import {
+  AccuracyReport,
+  EnsembleMethod,
+  EnsembleSummary,
+  ExplanationRule,
+} from "@shared/api";
+import {
+  ACCURACY_WINDOW,
+  firstUnseenBar,
+  isHit,
+  lastScorableBar,
+  realizedMove,
+  SignalScore,
+  summarizeScore,
+  WARMUP_BARS,
+} from "./accuracy";
+import { CLASSES, fitLogistic, logits, softmax } from "./ml/logistic";
+import { HORIZONS } from "./horizons";
+import { labelMove } from "./ml/train";
+import {
+  makePrediction,
+  ScoredPrediction,
+  Signal,
+  Timeframe,
+} from "./prediction";
+import { StockData } from "./providers";
+import { StrategyConfig, strategyId } from "./strategies";
+
+// Known outcomes needed before the stacker is fitted; until then it
+// falls back to a majority vote
+const MIN_STACKING_SAMPLES = 20;
+
+// The stacker is fitted on at most this many recent outcomes, and refitted
+// each time this many more are known rather than at every step
+const STACKING_WINDOW = 100;
+const STACKING_REFIT_INTERVAL = 20;
+const STACKING_FIT_OPTIONS = { epochs: 200, learningRate: 0.1, l2: 0.01 };
+
+export interface EnsembleResult extends ScoredPrediction {
+  accuracy: AccuracyReport;
+  ensemble: EnsembleSummary;
+}
+
+interface Vote {
+  prediction: Signal;
+  confidence: number;
+}
+
+interface Combined {
+  prediction: Signal;
+  confidence: number;
+  /** Influence of each member, summing to 1 */
+  weights: number[];
+  probabilities?: number[];
+}
+
+type Stacker = ReturnType<typeof fitLogistic>;
+
+// A vote as a single number for the stacker: its confidence, signed
+const signedVote = ({ prediction, confidence }: Vote) =>
+  prediction === "BUY"
+    ? confidence / 100
+    : prediction === "SELL"
+      ? -confidence / 100
+      : 0;
+
+const normalize = (values: number[]) => {
+  const total = values.reduce((sum, value) => sum + value, 0);
+  return values.map((value) => (total > 0 ? value / total : 1 / values.length));
+};
+
+// Tally weighted votes; a tie for the lead is a HOLD
+function tally(votes: Vote[], weights: number[]): Combined {
+  const totals: Record<Signal, number> = { BUY: 0, SELL: 0, HOLD: 0 };
+  votes.forEach((vote, m) => (totals[vote.prediction] += weights[m]));
+
+  const ranked = CLASSES.slice().sort((a, b) => totals[b] - totals[a]);
+  const tied = totals[ranked[0]] === totals[ranked[1]];
+  const prediction = tied ? "HOLD" : ranked[0];
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+  return {
+    prediction,
+    confidence: total > 0 ? totals[prediction] / total : 0,
+    weights: normalize(weights),
+  };
+}
+
+/**
+ * Combine the members' votes at step `i`, using only outcomes that were
+ * known by then: the moves of steps whose horizon ended by step `i`.
+ * Stackers are kept in `stackers` by the outcome count they were fitted on.
+ */
+function combineAt(
+  method: EnsembleMethod,
+  votes: Vote[][],
+  moves: number[],
+  timeframe: Timeframe,
+  i: number,
+  stackers: Map<number, Stacker>,
+): Combined {
+  const current = votes.map((member) => member[i]);
+  const known = Math.max(0, i - HORIZONS[timeframe].bars + 1);
+
+  if (method === "weighted") {
+    // Laplace-smoothed hit rate, so members with no history start at 50%
+    const weights = votes.map((member) => {
+      let hits = 0;
+      for (let j = 0; j < known; j++) {
+        if (isHit(member[j].prediction, moves[j], timeframe)) hits++;
+      }
+      return (hits + 1) / (known + 2);
+    });
+    return tally(current, weights);
+  }
+
+  if (method === "stacking" && known >= MIN_STACKING_SAMPLES) {
+    const fitted = known - (known % STACKING_REFIT_INTERVAL);
+    if (!stackers.has(fitted)) {
+      const from = Math.max(0, fitted - STACKING_WINDOW);
+      const samples = Array.from({ length: fitted - from }, (_, j) =>
+        votes.map((member) => signedVote(member[from + j])),
+      );
+      stackers.set(
+        fitted,
+        fitLogistic(
+          samples,
+          moves
+            .slice(from, fitted)
+            .map((move) => CLASSES.indexOf(labelMove(move, timeframe))),
+          STACKING_FIT_OPTIONS,
+        ),
+      );
+    }
+    const parameters = stackers.get(fitted);
+    const probabilities = softmax(logits(parameters, current.map(signedVote)));
+    const best = probabilities.indexOf(Math.max(...probabilities));
+
+    return {
+      prediction: CLASSES[best],
+      confidence: probabilities[best],
+      weights: normalize(
+        votes.map((_, m) =>
+          parameters.weights.reduce((sum, row) => sum + Math.abs(row[m]), 0),
+        ),
+      ),
+      probabilities,
+    };
+  }
+
+  return tally(
+    current,
+    votes.map(() => 1),
+  );
+}
+
+/**
+ * Predict with several strategies and combine their votes. Every member
+ * votes at every bar of the last ACCURACY_WINDOW scorable ones on, using
+ * only the bars known at the time, so the ensemble's own accuracy is
+ * measured the same way as a single strategy's (see measureAccuracy) and
+ * weights never see future outcomes. The replay starts after the bars any
+ * member model was trained on, or the accuracy is flagged in-sample.
+ */
+export function runEnsemble(
+  stockData: StockData[],
+  timeframe: Timeframe,
+  members: StrategyConfig[],
+  method: EnsembleMethod,
+  symbol?: string,
+): EnsembleResult {
+  const unseen = members.map((strategy) =>
+    symbol === undefined ? 0 : firstUnseenBar(stockData, strategy, symbol),
+  );
+  const start = Math.min(
+    stockData.length - 1,
+    Math.max(
+      Math.min(WARMUP_BARS, stockData.length - 1),
+      lastScorableBar(stockData, timeframe) - ACCURACY_WINDOW,
+      ...unseen.map((index) => index ?? 0),
+    ),
+  );
+  const last = stockData.length - 1 - start;
+
+  const votes: Vote[][] = members.map((strategy) =>
+    Array.from({ length: last + 1 }, (_, i) => {
+      const { prediction, confidence } = makePrediction(
+        stockData.slice(0, start + i + 1),
+        timeframe,
+        strategy,
+      );
+      return { prediction, confidence };
+    }),
+  );
+  // The move each step is scored on, for steps whose horizon has ended
+  const moves = Array.from(
+    { length: Math.max(0, lastScorableBar(stockData, timeframe) - start) },
+    (_, i) => realizedMove(stockData, start + i, timeframe),
+  );
+
+  const stackers = new Map<number, Stacker>();
+  const score: Pick<SignalScore, "hits" | "total"> = { hits: 0, total: 0 };
+  moves.forEach((move, i) => {
+    const { prediction } = combineAt(
+      method,
+      votes,
+      moves,
+      timeframe,
+      i,
+      stackers,
+    );
+    if (isHit(prediction, move, timeframe)) score.hits++;
+    score.total++;
+  });
+
+  const combined = combineAt(method, votes, moves, timeframe, last, stackers);
+  const current = votes.map((member) => member[last]);
+  const toPercent = (value: number) => Math.round(value * 10000) / 100;
+
+  const rules: ExplanationRule[] = members.map((strategy, m) => {
+    const sign =
+      current[m].prediction === "BUY"
+        ? 1
+        : current[m].prediction === "SELL"
+          ? -1
+          : 0;
+    return {
+      id: strategyId(strategy),
+      description: `${strategyId(strategy)} votes ${current[m].prediction} at ${current[m].confidence}% confidence`,
+      contribution: toPercent(sign * combined.weights[m]),
+      conditions: [],
+    };
+  });
+  const netScore = rules.reduce((sum, rule) => sum + rule.contribution, 0);
+  const agreeing = current.filter(
+    (vote) => vote.prediction === combined.prediction,
+  ).length;
+
+  return {
+    prediction: combined.prediction,
+    confidence: Math.round(combined.confidence * 100),
+    explanation: {
+      rules,
+      adjustments: [],
+      rawScore: Math.round(netScore * 100) / 100,
+      finalScore: Math.round(netScore * 100) / 100,
+      scoreThreshold: 0,
+      confidenceThreshold: 0,
+    },
+    probabilities: combined.probabilities && {
+      BUY: toPercent(combined.probabilities[CLASSES.indexOf("BUY")]),
+      SELL: toPercent(combined.probabilities[CLASSES.indexOf("SELL")]),
+      HOLD: toPercent(combined.probabilities[CLASSES.indexOf("HOLD")]),
+    },
+    accuracy: unseen.includes(null)
+      ? { ...summarizeScore(score), inSample: true }
+      : summarizeScore(score),
+    ensemble: {
+      method,
+      votes: members.map((strategy, m) => ({
+        strategy: strategyId(strategy),
+        prediction: current[m].prediction,
+        confidence: current[m].confidence,
+        weight: toPercent(combined.weights[m]),
+      })),
+      agreement: toPercent(agreeing / members.length),
+    },
+  };
+}
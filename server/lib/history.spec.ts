@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { dateRange, resampleBars } from "./history";
+import { generateSyntheticData } from "./providers/synthetic";
+
+const bars = generateSyntheticData("TEST", { endDate: "2024-06-28" });
+
+describe("resampleBars", () => {
+  it("should merge a week of daily bars into one", () => {
+    // 2024-06-24 is a Monday, 2024-06-28 the Friday after it
+    const week = bars.filter((bar) => bar.date >= "2024-06-24");
+    const [merged] = resampleBars(week, "1w");
+
+    expect(merged).toEqual({
+      date: "2024-06-28",
+      open: week[0].open,
+      high: Math.max(...week.map((bar) => bar.high)),
+      low: Math.min(...week.map((bar) => bar.low)),
+      close: week[4].close,
+      volume: week.reduce((sum, bar) => sum + bar.volume, 0),
+    });
+  });
+
+  it("should date monthly bars by their last trading day", () => {
+    const months = resampleBars(bars, "1mo");
+    expect(months.map((bar) => bar.date).slice(-2)).toEqual([
+      "2024-05-31",
+      "2024-06-28",
+    ]);
+    expect(months.reduce((sum, bar) => sum + bar.volume, 0)).toBe(
+      bars.reduce((sum, bar) => sum + bar.volume, 0),
+    );
+  });
+
+  it("should leave daily bars untouched", () => {
+    expect(resampleBars(bars, "1d")).toBe(bars);
+  });
+});
+
+describe("dateRange", () => {
+  it("should include both ends of the range", () => {
+    const { start, end } = dateRange(bars, "2024-06-03", "2024-06-07");
+    expect(bars.slice(start, end).map((bar) => bar.date)).toEqual([
+      "2024-06-03",
+      "2024-06-04",
+      "2024-06-05",
+      "2024-06-06",
+      "2024-06-07",
+    ]);
+  });
+});
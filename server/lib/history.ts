@@ -0,0 +1,61 @@
+import { BarInterval } from "@shared/api";
+import { StockData } from "./providers";
+
+// The Monday starting the week a YYYY-MM-DD date falls in
+function weekStart(date: string) {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+  return day.toISOString().slice(0, 10);
+}
+
+const PERIOD_KEYS: Record<BarInterval, (date: string) => string> = {
+  "1d": (date) => date,
+  "1w": weekStart,
+  "1mo": (date) => date.slice(0, 7),
+};
+
+/**
+ * Merge daily bars into weekly or monthly ones: first open, highest high,
+ * lowest low, last close and total volume. Each merged bar takes the date of
+ * its last daily bar, so a partial current period ends on the latest close.
+ */
+export function resampleBars(
+  stockData: StockData[],
+  interval: BarInterval,
+): StockData[] {
+  if (interval === "1d") return stockData;
+
+  const periodKey = PERIOD_KEYS[interval];
+  const merged: StockData[] = [];
+  let currentKey: string | null = null;
+
+  for (const bar of stockData) {
+    const key = periodKey(bar.date);
+    const last = merged[merged.length - 1];
+    if (key !== currentKey) {
+      merged.push({ ...bar });
+      currentKey = key;
+      continue;
+    }
+    last.date = bar.date;
+    last.high = Math.max(last.high, bar.high);
+    last.low = Math.min(last.low, bar.low);
+    last.close = bar.close;
+    last.volume += bar.volume;
+  }
+
+  return merged;
+}
+
+/** Slice bounds of the bars within the inclusive date range */
+export function dateRange(stockData: StockData[], from?: string, to?: string) {
+  let start = 0;
+  let end = stockData.length;
+  if (from) {
+    while (start < end && stockData[start].date < from) start++;
+  }
+  if (to) {
+    while (end > start && stockData[end - 1].date > to) end--;
+  }
+  return { start, end };
+}
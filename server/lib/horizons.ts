@@ -0,0 +1,115 @@
+import { Timeframe } from "@shared/api";
+
+export const TIMEFRAMES: Timeframe[] = ["today", "tomorrow", "1w", "2w", "1m"];
+
+/** Lookback periods, in bars, for the indicators analyzeStock derives */
+export interface IndicatorWindows {
+  rsi: number;
+  fastSma: number;
+  slowSma: number;
+  bollinger: number;
+  /** Recent average volume, compared with the three windows before it */
+  volume: number;
+  macd: { fast: number; slow: number; signal: number };
+  adx: number;
+}
+
+/** Timeframe settings for rule strategies that do not define their own */
+export interface HorizonSettings {
+  scoreMultiplier: number;
+  confidenceMultiplier: number;
+  confidenceThreshold: number;
+}
+
+export interface Horizon {
+  /** Bars between the signal and the close it is scored against */
+  bars: number;
+  /** Moves smaller than this (as a fraction) count as flat: HOLD was right */
+  holdBand: number;
+  windows: IndicatorWindows;
+  defaults: HorizonSettings;
+}
+
+const DAILY_WINDOWS: IndicatorWindows = {
+  rsi: 14,
+  fastSma: 10,
+  slowSma: 50,
+  bollinger: 20,
+  volume: 5,
+  macd: { fast: 12, slow: 26, signal: 9 },
+  adx: 14,
+};
+
+/**
+ * Longer horizons look at slower indicators and need a bigger move before
+ * a HOLD counts as wrong. The slow SMA stays at 50 bars for every horizon,
+ * so WARMUP_BARS covers them all.
+ */
+export const HORIZONS: Record<Timeframe, Horizon> = {
+  today: {
+    bars: 1,
+    holdBand: 0.005,
+    windows: DAILY_WINDOWS,
+    defaults: {
+      scoreMultiplier: 0.9,
+      confidenceMultiplier: 0.8,
+      confidenceThreshold: 0.5,
+    },
+  },
+  tomorrow: {
+    bars: 1,
+    holdBand: 0.005,
+    windows: DAILY_WINDOWS,
+    defaults: {
+      scoreMultiplier: 1,
+      confidenceMultiplier: 1,
+      confidenceThreshold: 0.6,
+    },
+  },
+  "1w": {
+    bars: 5,
+    holdBand: 0.01,
+    windows: { ...DAILY_WINDOWS, fastSma: 20, volume: 10 },
+    defaults: {
+      scoreMultiplier: 1,
+      confidenceMultiplier: 0.9,
+      confidenceThreshold: 0.55,
+    },
+  },
+  "2w": {
+    bars: 10,
+    holdBand: 0.015,
+    windows: {
+      rsi: 21,
+      fastSma: 20,
+      slowSma: 50,
+      bollinger: 30,
+      volume: 10,
+      macd: { fast: 18, slow: 39, signal: 9 },
+      adx: 21,
+    },
+    defaults: {
+      scoreMultiplier: 1,
+      confidenceMultiplier: 0.85,
+      confidenceThreshold: 0.55,
+    },
+  },
+  "1m": {
+    bars: 21,
+    holdBand: 0.025,
+    windows: {
+      rsi: 28,
+      fastSma: 25,
+      slowSma: 50,
+      bollinger: 40,
+      volume: 10,
+      macd: { fast: 24, slow: 52, signal: 9 },
+      adx: 28,
+    },
+    defaults: {
+      scoreMultiplier: 1,
+      confidenceMultiplier: 0.8,
+      confidenceThreshold: 0.5,
+    },
+  },
+};
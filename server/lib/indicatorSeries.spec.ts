@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { rsi } from "../../shared/indicators";
+import {
+  computeIndicators,
+  IndicatorSpecError,
+  parseIndicatorList,
+} from "./indicatorSeries";
+import { generateSyntheticData } from "./providers/synthetic";
+
+const bars = generateSyntheticData("TEST", { endDate: "2024-06-28" });
+
+describe("parseIndicatorList", () => {
+  it("should fill in defaults after the given parameters", () => {
+    expect(parseIndicatorList("rsi, macd:5")).toEqual([
+      { name: "rsi", params: { period: 14 } },
+      { name: "macd", params: { fast: 5, slow: 26, signal: 9 } },
+    ]);
+  });
+
+  it("should reject unknown names and bad parameters", () => {
+    expect(() => parseIndicatorList("rsi,foo")).toThrow(IndicatorSpecError);
+    expect(() => parseIndicatorList("sma:2.5")).toThrow(/positive integer/);
+    expect(() => parseIndicatorList("obv:3")).toThrow(/no parameters/);
+    expect(parseIndicatorList("bollinger:20:1.5")[0].params.multiplier).toBe(
+      1.5,
+    );
+  });
+});
+
+describe("computeIndicators", () => {
+  it("should warm up on bars before the requested range", () => {
+    const [series] = computeIndicators(
+      bars,
+      parseIndicatorList("rsi"),
+      bars.length - 5,
+    );
+    const expected = rsi(bars.map((bar) => bar.close)).slice(-5);
+
+    expect(series.lines.rsi).toHaveLength(5);
+    series.lines.rsi.forEach((value, i) =>
+      expect(value).toBeCloseTo(expected[i], 3),
+    );
+  });
+});
@@ -0,0 +1,175 @@
+import { IndicatorName, IndicatorSeries } from "@shared/api";
+import {
+  adx,
+  atr,
+  bollingerBands,
+  cci,
+  ema,
+  ichimoku,
+  macd,
+  obv,
+  rsi,
+  Series,
+  sma,
+  stochastic,
+  vwap,
+  williamsR,
+} from "../../shared/indicators";
+import { StockData } from "./providers";
+
+interface IndicatorDefinition {
+  /** Defaults, in the order parameters are given after the name */
+  params: Record<string, number>;
+  compute(bars: StockData[], params: number[]): Record<string, Series>;
+}
+
+const closes = (bars: StockData[]) => bars.map((bar) => bar.close);
+
+const INDICATORS: Record<IndicatorName, IndicatorDefinition> = {
+  sma: {
+    params: { period: 20 },
+    compute: (bars, [period]) => ({ sma: sma(closes(bars), period) }),
+  },
+  ema: {
+    params: { period: 20 },
+    compute: (bars, [period]) => ({ ema: ema(closes(bars), period) }),
+  },
+  rsi: {
+    params: { period: 14 },
+    compute: (bars, [period]) => ({ rsi: rsi(closes(bars), period) }),
+  },
+  macd: {
+    params: { fast: 12, slow: 26, signal: 9 },
+    compute: (bars, [fast, slow, signal]) =>
+      macd(closes(bars), fast, slow, signal),
+  },
+  bollinger: {
+    params: { period: 20, multiplier: 2 },
+    compute: (bars, [period, multiplier]) =>
+      bollingerBands(closes(bars), period, multiplier),
+  },
+  atr: {
+    params: { period: 14 },
+    compute: (bars, [period]) => ({ atr: atr(bars, period) }),
+  },
+  stochastic: {
+    params: { period: 14, smoothK: 3 },
+    compute: (bars, [period, smoothK]) => stochastic(bars, period, smoothK),
+  },
+  williamsR: {
+    params: { period: 14 },
+    compute: (bars, [period]) => ({ williamsR: williamsR(bars, period) }),
+  },
+  adx: {
+    params: { period: 14 },
+    compute: (bars, [period]) => adx(bars, period),
+  },
+  obv: {
+    params: {},
+    compute: (bars) => ({ obv: obv(bars) }),
+  },
+  vwap: {
+    params: {},
+    compute: (bars) => ({ vwap: vwap(bars) }),
+  },
+  cci: {
+    params: { period: 20 },
+    compute: (bars, [period]) => ({ cci: cci(bars, period) }),
+  },
+  ichimoku: {
+    params: { conversion: 9, base: 26, spanB: 52, displacement: 26 },
+    compute: (bars, [conversion, base, spanB, displacement]) =>
+      ichimoku(bars, conversion, base, spanB, displacement),
+  },
+};
+
+export const INDICATOR_NAMES = Object.keys(INDICATORS) as IndicatorName[];
+
+// The only parameter that is not a bar count
+const FRACTIONAL_PARAMS = new Set(["multiplier"]);
+
+export interface IndicatorRequest {
+  name: IndicatorName;
+  params: Record<string, number>;
+}
+
+export class IndicatorSpecError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "IndicatorSpecError";
+  }
+}
+
+/**
+ * Parse a comma-separated list like `rsi,sma:50,macd:12:26:9`. Parameters
+ * after a name replace its defaults in order; omitted ones keep them.
+ */
+export function parseIndicatorList(list: string): IndicatorRequest[] {
+  return list
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [name, ...values] = entry.split(":");
+      const definition = INDICATORS[name as IndicatorName];
+      if (!definition) {
+        throw new IndicatorSpecError(
+          `Unknown indicator '${name}', expected one of ${INDICATOR_NAMES.map((n) => `'${n}'`).join(", ")}`,
+        );
+      }
+
+      const keys = Object.keys(definition.params);
+      if (values.length > keys.length) {
+        throw new IndicatorSpecError(
+          keys.length === 0
+            ? `'${name}' takes no parameters`
+            : `'${name}' takes at most ${keys.length} parameter(s): ${keys.join(", ")}`,
+        );
+      }
+
+      const params = { ...definition.params };
+      values.forEach((raw, i) => {
+        const value = Number(raw);
+        const valid =
+          Number.isFinite(value) &&
+          value > 0 &&
+          (FRACTIONAL_PARAMS.has(keys[i]) || Number.isInteger(value));
+        if (!valid) {
+          throw new IndicatorSpecError(
+            `'${name}' ${keys[i]} must be a positive ${FRACTIONAL_PARAMS.has(keys[i]) ? "number" : "integer"}, got '${raw}'`,
+          );
+        }
+        params[keys[i]] = value;
+      });
+
+      return { name: name as IndicatorName, params };
+    });
+}
+
+const round = (value: number | null) =>
+  value === null ? null : Math.round(value * 10000) / 10000;
+
+/**
+ * Compute each requested indicator over all bars, then keep the values in
+ * [start, end) so the range starts with warmed-up indicators.
+ */
+export function computeIndicators(
+  bars: StockData[],
+  requests: IndicatorRequest[],
+  start = 0,
+  end = bars.length,
+): IndicatorSeries[] {
+  return requests.map(({ name, params }) => {
+    const lines = INDICATORS[name].compute(bars, Object.values(params));
+    return {
+      name,
+      params,
+      lines: Object.fromEntries(
+        Object.entries(lines).map(([line, values]) => [
+          line,
+          values.slice(start, end).map(round),
+        ]),
+      ),
+    };
+  });
+}
@@ -0,0 +1,127 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { fetchStockData } from "./marketData";
+import { RateLimitError, registerProvider, StockData } from "./providers";
+
+const bars = (close: number): StockData[] => [
+  {
+    date: "2024-01-02",
+    open: close,
+    high: close,
+    low: close,
+    close,
+    volume: 1,
+  },
+];
+
+// Each fetch resolves only when the test says so
+function deferredProvider(id: string) {
+  const pending: ((bars: StockData[]) => void)[] = [];
+  const fetchDaily = vi.fn(
+    () => new Promise<StockData[]>((resolve) => pending.push(resolve)),
+  );
+  registerProvider({
+    id,
+    name: id,
+    synthetic: false,
+    isAvailable: () => true,
+    fetchDaily,
+  });
+  return {
+    fetchDaily,
+    resolveNext: (data: StockData[]) => pending.shift()(data),
+  };
+}
+
+describe("fetchStockData", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should share one fetch between concurrent callers", async () => {
+    const provider = deferredProvider("coalesce-test");
+    const first = fetchStockData("AAPL", "coalesce-test");
+    const second = fetchStockData("AAPL", "coalesce-test");
+
+    provider.resolveNext(bars(1));
+    const results = await Promise.all([first, second]);
+
+    expect(provider.fetchDaily).toHaveBeenCalledTimes(1);
+    expect(results[0]).toBe(results[1]);
+  });
+
+  it("should serve stale bars while refreshing them", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const provider = deferredProvider("swr-test");
+    const initial = fetchStockData("AAPL", "swr-test");
+    provider.resolveNext(bars(1));
+    await initial;
+
+    vi.setSystemTime(Date.now() + 31 * 60 * 1000);
+    const stale = await fetchStockData("AAPL", "swr-test");
+    expect(stale.bars[0].close).toBe(1);
+    expect(provider.fetchDaily).toHaveBeenCalledTimes(2);
+
+    provider.resolveNext(bars(2));
+    await vi.waitFor(async () => {
+      expect((await fetchStockData("AAPL", "swr-test")).bars[0].close).toBe(2);
+    });
+    expect(provider.fetchDaily).toHaveBeenCalledTimes(2);
+  });
+
+  it("should surface a spent quota instead of serving synthetic bars", async () => {
+    const limited = { id: "limited-test", name: "Limited" };
+    registerProvider({
+      ...limited,
+      synthetic: false,
+      isAvailable: () => true,
+      fetchDaily: async () => {
+        throw new RateLimitError(limited, 42);
+      },
+    });
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await expect(fetchStockData("AAPL", "limited-test")).rejects.toMatchObject({
+      retryAfter: 42,
+    });
+    vi.restoreAllMocks();
+  });
+
+  it("should record the provenance of fetched bars", async () => {
+    const provider = deferredProvider("provenance-test");
+    const pending = fetchStockData("AAPL", "provenance-test");
+    provider.resolveNext(bars(1));
+
+    expect((await pending).source).toMatchObject({
+      provider: "provenance-test",
+      synthetic: false,
+      lastBarDate: "2024-01-02",
+      stale: false,
+    });
+  });
+
+  it("should say why synthetic bars stood in, without upstream details", async () => {
+    registerProvider({
+      id: "failing-test",
+      name: "Failing",
+      synthetic: false,
+      isAvailable: () => true,
+      fetchDaily: async () => {
+        const error = new Error(
+          "request to https://example.com/query?apikey=SECRET failed",
+        );
+        error.name = "FetchError";
+        throw error;
+      },
+    });
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const { source } = await fetchStockData("AAPL", "failing-test");
+    expect(source.synthetic).toBe(true);
+    expect(source.fallback).toEqual({
+      requested: "failing-test",
+      reason: "network error",
+    });
+    vi.restoreAllMocks();
+  });
+});
@@ -0,0 +1,157 @@
+import { DataSource } from "@shared/api";
+import { LoadedBars, loadDailyBars } from "./barStore";
+import { cacheKey, getCache } from "./cache";
+import {
+  DataFileError,
+  MarketDataError,
+  MarketDataProvider,
+  RateLimitError,
+  resolveProvider,
+  StockData,
+  syntheticProvider,
+} from "./providers";
+
+export interface MarketDataResult {
+  bars: StockData[];
+  source: DataSource;
+}
+
+/**
+ * Most recent bars that predictions and walk-forward runs consume. The bar
+ * store keeps every bar it has fetched, and replaying thousands of them
+ * would hold the event loop for minutes.
+ */
+export const ANALYSIS_BARS = 750;
+
+export const recentBars = (bars: StockData[]) => bars.slice(-ANALYSIS_BARS);
+
+const dailyBars = getCache<MarketDataResult>("daily");
+
+// Fetches under way, by cache key, shared by every caller that asks meanwhile
+const inflight = new Map<string, Promise<MarketDataResult>>();
+
+function coalesce(key: string, load: () => Promise<MarketDataResult>) {
+  let pending = inflight.get(key);
+  if (!pending) {
+    pending = load().finally(() => inflight.delete(key));
+    inflight.set(key, pending);
+  }
+  return pending;
+}
+
+const now = () => new Date().toISOString();
+
+/**
+ * Why a provider failed, in words fit for clients. Raw errors stay in the
+ * logs: those from fetch quote the request URL, API key and all.
+ */
+function fallbackReason(provider: MarketDataProvider, error: unknown) {
+  if (!provider.isAvailable()) return "not configured";
+  if (error instanceof MarketDataError) {
+    return `provider error: ${error.message}`;
+  }
+  if (
+    error instanceof Error &&
+    ["AbortError", "TimeoutError", "FetchError"].includes(error.name)
+  ) {
+    return "network error";
+  }
+  return "provider error";
+}
+
+async function loadStockData(
+  symbol: string,
+  provider: MarketDataProvider,
+  stale?: MarketDataResult,
+): Promise<MarketDataResult> {
+  let source = provider;
+  let loaded: LoadedBars;
+  let fallback: DataSource["fallback"];
+
+  try {
+    if (!provider.isAvailable()) {
+      throw new Error(`${provider.name} is not configured`);
+    }
+    loaded = provider.storeBars
+      ? await loadDailyBars(provider, symbol)
+      : {
+          bars: await provider.fetchDaily(symbol),
+          fetchedAt: now(),
+          stale: false,
+        };
+  } catch (error) {
+    if (error instanceof DataFileError) {
+      throw error;
+    }
+    console.error(`Error fetching ${symbol} from ${provider.name}:`, error);
+    // Stale bars from the market beat fresh synthetic ones. A fallback is
+    // cached under the requested provider too, so check what `stale` holds.
+    if (stale && !stale.source.synthetic) {
+      return { ...stale, source: { ...stale.source, stale: true } };
+    }
+    if (error instanceof RateLimitError) {
+      throw error;
+    }
+    console.warn(`Serving synthetic bars for ${symbol}`);
+    source = syntheticProvider;
+    fallback = {
+      requested: provider.id,
+      reason: fallbackReason(provider, error),
+    };
+    loaded = {
+      bars: await syntheticProvider.fetchDaily(symbol),
+      fetchedAt: now(),
+      stale: false,
+    };
+  }
+
+  const { bars, fetchedAt } = loaded;
+  const result: MarketDataResult = {
+    bars,
+    source: {
+      provider: source.id,
+      name: source.name,
+      synthetic: source.synthetic,
+      fetchedAt,
+      lastBarDate: bars.length > 0 ? bars[bars.length - 1].date : null,
+      stale: loaded.stale,
+      ...(fallback && { fallback }),
+    },
+  };
+
+  dailyBars.set(cacheKey(symbol, provider.id), result);
+  return result;
+}
+
+/**
+ * Fetch daily bars for a symbol from the requested (or configured) provider.
+ * Providers that set `storeBars` go through the on-disk bar store, so only
+ * missing bars are fetched from them.
+ * If that provider is unavailable or fails, synthetic data is served instead
+ * and the result's source says so, with the reason. Malformed local data
+ * files and spent quotas are never papered over: their DataFileError or
+ * RateLimitError reaches the caller.
+ *
+ * Concurrent calls for the same bars share one fetch. Bars past their cache
+ * TTL are returned at once while a refresh runs in the background.
+ */
+export async function fetchStockData(
+  symbol: string,
+  providerId?: string,
+): Promise<MarketDataResult> {
+  const provider = resolveProvider(providerId);
+  const key = cacheKey(symbol, provider.id);
+
+  const cached = dailyBars.getStale(key);
+  if (cached?.stale) {
+    coalesce(key, () => loadStockData(symbol, provider, cached.value)).catch(
+      (error) =>
+        console.error(`Background refresh of ${symbol} failed:`, error),
+    );
+  }
+  if (cached) {
+    return cached.value;
+  }
+
+  return coalesce(key, () => loadStockData(symbol, provider));
+}
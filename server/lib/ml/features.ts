@@ -0,0 +1,92 @@
+import {
+  atr,
+  bollingerBands,
+  cci,
+  obv,
+  stochastic,
+  vwap,
+} from "../../../shared/indicators";
+import { StockFeatures } from "../prediction";
+import { StockData } from "../providers";
+
+/** Columns of the feature vector, in order */
+export const FEATURE_NAMES = [
+  "rsi",
+  "trend",
+  "volatility",
+  "volume_trend",
+  "rsi_crossover",
+  "rsi_divergence",
+  "macd_histogram_pct",
+  "adx",
+  "stochastic_k",
+  "cci",
+  "atr_pct",
+  "bollinger_position",
+  "obv_slope",
+  "vwap_distance_pct",
+  "return_5d_pct",
+  "return_20d_pct",
+];
+
+const direction = (value: string) =>
+  value === "BULLISH" || value === "INCREASING" || value === "HIGH"
+    ? 1
+    : value === "BEARISH" || value === "DECREASING" || value === "LOW"
+      ? -1
+      : 0;
+
+const last = (series: (number | null)[], fallback: number) =>
+  series[series.length - 1] ?? fallback;
+
+function percentChange(closes: number[], bars: number) {
+  if (closes.length <= bars) return 0;
+  const base = closes[closes.length - 1 - bars];
+  return ((closes[closes.length - 1] - base) / base) * 100;
+}
+
+/**
+ * Turn the analyzeStock features and the extended indicators at the last
+ * bar into numbers, in FEATURE_NAMES order. Price-scaled values are taken
+ * as a percent of the close so one model can serve every symbol.
+ */
+export function featureVector(
+  features: StockFeatures,
+  stockData: StockData[],
+): number[] {
+  const closes = stockData.map((d) => d.close);
+  const close = closes[closes.length - 1];
+
+  const bands = bollingerBands(closes);
+  const upper = last(bands.upper, close);
+  const lower = last(bands.lower, close);
+
+  // OBV change over two weeks relative to the volume traded in that time
+  const obvValues = obv(stockData);
+  const recent = stockData.slice(-10);
+  const recentVolume = recent.reduce((sum, bar) => sum + bar.volume, 0);
+  const obvSlope =
+    recentVolume > 0 && obvValues.length > 10
+      ? (obvValues[obvValues.length - 1] - obvValues[obvValues.length - 11]) /
+        recentVolume
+      : 0;
+
+  return [
+    features.rsi,
+    direction(features.trend),
+    direction(features.volatility),
+    direction(features.volume_trend),
+    direction(features.rsi_crossover),
+    direction(features.rsi_divergence),
+    (features.macd_histogram / close) * 100,
+    features.adx,
+    last(stochastic(stockData).k, 50),
+    last(cci(stockData), 0),
+    (last(atr(stockData), 0) / close) * 100,
+    upper === lower ? 0.5 : (close - lower) / (upper - lower),
+    obvSlope,
+    ((close - last(vwap(stockData, 20), close)) / close) * 100,
+    percentChange(closes, 5),
+    percentChange(closes, 20),
+  ];
+}
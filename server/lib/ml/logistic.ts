@@ -0,0 +1,160 @@
+import { Signal } from "../prediction";
+import { Classifier } from "../strategies";
+
+/** Output classes, in the order of the classifier's weight rows */
+export const CLASSES: Signal[] = ["BUY", "SELL", "HOLD"];
+
+export interface FitOptions {
+  epochs: number;
+  learningRate: number;
+  /** L2 penalty on the weights, not the biases */
+  l2: number;
+}
+
+export const DEFAULT_FIT_OPTIONS: FitOptions = {
+  epochs: 500,
+  learningRate: 0.1,
+  l2: 0.01,
+};
+
+type Parameters = Pick<Classifier, "means" | "stds" | "weights" | "biases">;
+
+export function softmax(logits: number[], temperature: number = 1): number[] {
+  const scaled = logits.map((logit) => logit / temperature);
+  const max = Math.max(...scaled);
+  const exps = scaled.map((logit) => Math.exp(logit - max));
+  const total = exps.reduce((sum, value) => sum + value, 0);
+  return exps.map((value) => value / total);
+}
+
+function standardize(vector: number[], { means, stds }: Parameters) {
+  return vector.map((value, j) => (value - means[j]) / stds[j]);
+}
+
+function linear({ weights, biases }: Parameters, z: number[]) {
+  return weights.map(
+    (row, c) => biases[c] + row.reduce((sum, w, j) => sum + w * z[j], 0),
+  );
+}
+
+/** Per-class logits for a raw feature vector */
+export function logits(parameters: Parameters, vector: number[]): number[] {
+  return linear(parameters, standardize(vector, parameters));
+}
+
+/** Calibrated class probabilities, in CLASSES order */
+export function predictProbabilities(
+  classifier: Classifier,
+  vector: number[],
+): number[] {
+  return softmax(logits(classifier, vector), classifier.temperature);
+}
+
+/**
+ * How much each feature pushed `classIndex` above the average class. Softmax
+ * ignores anything added to every class equally, so only the difference
+ * from the mean weight matters.
+ */
+export function contributions(
+  classifier: Classifier,
+  vector: number[],
+  classIndex: number,
+): number[] {
+  const z = standardize(vector, classifier);
+  return z.map((value, j) => {
+    const mean =
+      classifier.weights.reduce((sum, row) => sum + row[j], 0) /
+      classifier.weights.length;
+    return (
+      ((classifier.weights[classIndex][j] - mean) * value) /
+      classifier.temperature
+    );
+  });
+}
+
+/**
+ * Fit a multinomial logistic regression by full-batch gradient descent on
+ * standardized features. `labels` are indexes into CLASSES.
+ */
+export function fitLogistic(
+  samples: number[][],
+  labels: number[],
+  options: FitOptions = DEFAULT_FIT_OPTIONS,
+): Parameters {
+  const n = samples.length;
+  const width = samples[0].length;
+
+  const means = Array.from(
+    { length: width },
+    (_, j) => samples.reduce((sum, x) => sum + x[j], 0) / n,
+  );
+  const stds = means.map((mean, j) => {
+    const variance =
+      samples.reduce((sum, x) => sum + (x[j] - mean) ** 2, 0) / n;
+    // Constant columns carry no information; keep them finite
+    return Math.sqrt(variance) || 1;
+  });
+
+  const parameters: Parameters = {
+    means,
+    stds,
+    weights: CLASSES.map(() => new Array(width).fill(0)),
+    biases: CLASSES.map(() => 0),
+  };
+  const standardized = samples.map((x) => standardize(x, parameters));
+
+  for (let epoch = 0; epoch < options.epochs; epoch++) {
+    const weightGradient = CLASSES.map(() => new Array(width).fill(0));
+    const biasGradient = CLASSES.map(() => 0);
+
+    standardized.forEach((z, i) => {
+      const probabilities = softmax(linear(parameters, z));
+      probabilities.forEach((p, c) => {
+        const error = p - (labels[i] === c ? 1 : 0);
+        biasGradient[c] += error / n;
+        for (let j = 0; j < width; j++) {
+          weightGradient[c][j] += (error * z[j]) / n;
+        }
+      });
+    });
+
+    parameters.weights.forEach((row, c) => {
+      parameters.biases[c] -= options.learningRate * biasGradient[c];
+      for (let j = 0; j < width; j++) {
+        row[j] -=
+          options.learningRate * (weightGradient[c][j] + options.l2 * row[j]);
+      }
+    });
+  }
+
+  return parameters;
+}
+
+/** Mean negative log-likelihood of the true classes */
+export function logLoss(probabilities: number[][], labels: number[]) {
+  if (labels.length === 0) return 0;
+  const total = probabilities.reduce(
+    (sum, p, i) => sum - Math.log(Math.max(p[labels[i]], 1e-15)),
+    0,
+  );
+  return total / labels.length;
+}
+
+/**
+ * Temperature scaling: the softmax temperature that minimizes log loss on
+ * held-out samples. Above 1 softens overconfident probabilities, below 1
+ * sharpens timid ones; the most likely class never changes.
+ */
+export function fitTemperature(heldOutLogits: number[][], labels: number[]) {
+  if (labels.length === 0) return 1;
+
+  let best = { temperature: 1, loss: Infinity };
+  for (let temperature = 0.25; temperature <= 10; temperature += 0.05) {
+    const loss = logLoss(
+      heldOutLogits.map((l) => softmax(l, temperature)),
+      labels,
+    );
+    if (loss < best.loss) best = { temperature, loss };
+  }
+  return Math.round(best.temperature * 100) / 100;
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+import { measureAccuracy } from "../accuracy";
+import { DEFAULT_BACKTEST_OPTIONS, runBacktest } from "../backtest";
+import { runEnsemble } from "../ensemble";
+import { fitLogistic, fitTemperature, logits, softmax } from "./logistic";
+import { buildDataset, trainModel } from "./train";
+import { makePrediction } from "../prediction";
+import { generateSyntheticData } from "../providers/synthetic";
+import { getStrategy, strategySchema } from "../strategies";
+
+const endDate = "2024-06-28";
+
+describe("fitLogistic", () => {
+  it("should separate classes that depend on one feature", () => {
+    // Class follows the sign of the first feature; the second is noise
+    const samples = Array.from({ length: 60 }, (_, i) => [
+      (i % 3) - 1 + (i % 7) / 20,
+      (i * 37) % 11,
+    ]);
+    const labels = samples.map(([x]) => (x > 0.5 ? 0 : x < -0.5 ? 1 : 2));
+    const parameters = fitLogistic(samples, labels);
+
+    const predicted = samples.map((x) => {
+      const l = logits(parameters, x);
+      return l.indexOf(Math.max(...l));
+    });
+    expect(predicted).toEqual(labels);
+  });
+
+  it("should soften overconfident logits when calibrating", () => {
+    // Always 90% sure, right only half the time
+    const heldOut = Array.from({ length: 20 }, () => [3, 0.8, 0.8]);
+    const labels = heldOut.map((_, i) => (i % 2 === 0 ? 0 : 1));
+    const temperature = fitTemperature(heldOut, labels);
+
+    expect(temperature).toBeGreaterThan(1);
+    expect(softmax(heldOut[0], temperature)[0]).toBeLessThan(
+      softmax(heldOut[0])[0],
+    );
+  });
+});
+
+describe("trainModel", () => {
+  const histories = {
+    AAA: generateSyntheticData("AAA", { endDate }),
+    BBB: generateSyntheticData("BBB", { endDate }),
+  };
+
+  it("should label every bar after the warmup except the last", () => {
+    const dataset = buildDataset(histories.AAA, "tomorrow");
+    expect(dataset.samples).toHaveLength(100 - 50 - 1);
+    expect(dataset.labels).toHaveLength(dataset.samples.length);
+  });
+
+  it("should produce a servable strategy with calibrated probabilities", () => {
+    const model = trainModel(histories, { epochs: 100 });
+    expect(strategySchema.safeParse(model).success).toBe(true);
+
+    const result = makePrediction(histories.AAA, "today", model);
+    const { BUY, SELL, HOLD } = result.probabilities;
+    expect(BUY + SELL + HOLD).toBeCloseTo(100, 0);
+    expect(result.confidence).toBe(Math.round(Math.max(BUY, SELL, HOLD)));
+    expect(result.explanation.rules.length).toBeGreaterThan(0);
+  });
+
+  it("should only score signals after the bars it was trained on", () => {
+    const model = trainModel(histories, { epochs: 100 });
+    const { AAA } = histories;
+    expect(model.trainedThrough).toEqual({
+      AAA: AAA[AAA.length - 1].date,
+      BBB: histories.BBB[histories.BBB.length - 1].date,
+    });
+    expect(measureAccuracy(AAA, "tomorrow", model, "AAA").sampleSize).toBe(0);
+
+    const partly = { ...model, trainedThrough: { AAA: AAA[79].date } };
+    expect(measureAccuracy(AAA, "tomorrow", partly, "AAA").sampleSize).toBe(
+      100 - 80 - 1,
+    );
+    const unknown = { ...model, trainedThrough: undefined };
+    expect(measureAccuracy(AAA, "tomorrow", unknown, "AAA").inSample).toBe(
+      true,
+    );
+  });
+
+  it("should keep ensembles and backtests off the bars it was trained on", () => {
+    const model = trainModel(histories, { epochs: 100 });
+    const { AAA } = histories;
+    const partly = { ...model, trainedThrough: { AAA: AAA[79].date } };
+    const members = [partly, getStrategy()];
+    expect(
+      runEnsemble(AAA, "tomorrow", [model], "majority", "AAA").accuracy
+        .sampleSize,
+    ).toBe(0);
+
+    const ensemble = runEnsemble(AAA, "tomorrow", members, "majority", "AAA");
+    expect(ensemble.accuracy.sampleSize).toBe(100 - 80 - 1);
+    expect(ensemble.accuracy.inSample).toBeUndefined();
+    const backtest = runBacktest("AAA", AAA, {
+      ...DEFAULT_BACKTEST_OPTIONS,
+      strategy: partly,
+    });
+    expect(backtest.from).toBe(AAA[80].date);
+    expect(backtest.inSample).toBeUndefined();
+
+    const unknown = { ...model, trainedThrough: undefined };
+    expect(
+      runEnsemble(AAA, "tomorrow", [unknown], "majority", "AAA").accuracy
+        .inSample,
+    ).toBe(true);
+    expect(
+      runBacktest("AAA", AAA, {
+        ...DEFAULT_BACKTEST_OPTIONS,
+        strategy: unknown,
+      }).inSample,
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,169 @@
+import { RsiMethod } from "../../../shared/indicators";
+import { lastScorableBar, realizedMove, WARMUP_BARS } from "../accuracy";
+import { HORIZONS, TIMEFRAMES } from "../horizons";
+import { analyzeStock, Signal, Timeframe } from "../prediction";
+import { StockData } from "../providers";
+import { Classifier, ModelStrategy } from "../strategies";
+import { featureVector, FEATURE_NAMES } from "./features";
+import {
+  CLASSES,
+  DEFAULT_FIT_OPTIONS,
+  FitOptions,
+  fitLogistic,
+  fitTemperature,
+  logits,
+  logLoss,
+  softmax,
+} from "./logistic";
+
+export interface Dataset {
+  samples: number[][];
+  labels: Signal[];
+}
+
+export interface TrainingOptions extends FitOptions {
+  name: string;
+  version: number;
+  rsiMethod: RsiMethod;
+  /** Share of each symbol's most recent samples held out for calibration */
+  validationFraction: number;
+}
+
+export const DEFAULT_TRAINING_OPTIONS: TrainingOptions = {
+  ...DEFAULT_FIT_OPTIONS,
+  name: "logistic",
+  version: 1,
+  rsiMethod: "wilder",
+  validationFraction: 0.2,
+};
+
+/** The class a move counts as a hit for, with the same HOLD band as scoring */
+export function labelMove(move: number, timeframe: Timeframe): Signal {
+  const { holdBand } = HORIZONS[timeframe];
+  if (move > holdBand) return "BUY";
+  if (move < -holdBand) return "SELL";
+  return "HOLD";
+}
+
+/**
+ * One sample per bar from WARMUP_BARS on whose outcome is known, labeled by
+ * the move that bar's signal would be scored against. Features see only the bars up to and
+ * including the sample's own, as in scoreSignals.
+ */
+export function buildDataset(
+  stockData: StockData[],
+  timeframe: Timeframe,
+  rsiMethod: RsiMethod = "wilder",
+): Dataset {
+  const dataset: Dataset = { samples: [], labels: [] };
+
+  const { windows } = HORIZONS[timeframe];
+  for (let t = WARMUP_BARS; t < lastScorableBar(stockData, timeframe); t++) {
+    const history = stockData.slice(0, t + 1);
+    dataset.samples.push(
+      featureVector(analyzeStock(history, rsiMethod, windows), history),
+    );
+    dataset.labels.push(
+      labelMove(realizedMove(stockData, t, timeframe), timeframe),
+    );
+  }
+
+  return dataset;
+}
+
+function trainClassifier(
+  histories: StockData[][],
+  timeframe: Timeframe,
+  options: TrainingOptions,
+): Classifier {
+  const train: Dataset = { samples: [], labels: [] };
+  const validation: Dataset = { samples: [], labels: [] };
+
+  // Hold out the end of every symbol so validation is strictly later data.
+  // Training samples whose horizon reaches into it are dropped, so no
+  // validation outcome is seen in training.
+  const gap = HORIZONS[timeframe].bars - 1;
+  for (const stockData of histories) {
+    const { samples, labels } = buildDataset(
+      stockData,
+      timeframe,
+      options.rsiMethod,
+    );
+    const split = Math.round(samples.length * (1 - options.validationFraction));
+    train.samples.push(...samples.slice(0, Math.max(0, split - gap)));
+    train.labels.push(...labels.slice(0, Math.max(0, split - gap)));
+    validation.samples.push(...samples.slice(split));
+    validation.labels.push(...labels.slice(split));
+  }
+
+  if (train.samples.length === 0) {
+    throw new Error(
+      `Not enough history to train for ${timeframe}: need more than ${WARMUP_BARS + HORIZONS[timeframe].bars} bars`,
+    );
+  }
+
+  const toIndex = (labels: Signal[]) =>
+    labels.map((label) => CLASSES.indexOf(label));
+  const parameters = fitLogistic(train.samples, toIndex(train.labels), options);
+
+  const heldOutLogits = validation.samples.map((x) => logits(parameters, x));
+  const heldOutLabels = toIndex(validation.labels);
+  const temperature = fitTemperature(heldOutLogits, heldOutLabels);
+  const probabilities = heldOutLogits.map((l) => softmax(l, temperature));
+  const correct = probabilities.filter(
+    (p, i) => p.indexOf(Math.max(...p)) === heldOutLabels[i],
+  ).length;
+
+  return {
+    features: FEATURE_NAMES,
+    ...parameters,
+    classes: CLASSES,
+    temperature,
+    validation: {
+      samples: heldOutLabels.length,
+      accuracy:
+        heldOutLabels.length > 0
+          ? Math.round((correct / heldOutLabels.length) * 10000) / 100
+          : 0,
+      logLoss:
+        Math.round(logLoss(probabilities, heldOutLabels) * 10000) / 10000,
+    },
+  };
+}
+
+/**
+ * Train one classifier per timeframe on the given symbols' histories and
+ * package them as a strategy that getStrategy can serve.
+ */
+export function trainModel(
+  histories: Record<string, StockData[]>,
+  options: Partial<TrainingOptions> = {},
+): ModelStrategy {
+  const settings = { ...DEFAULT_TRAINING_OPTIONS, ...options };
+  const symbols = Object.keys(histories);
+  const bars = Object.values(histories);
+
+  return {
+    kind: "model",
+    name: settings.name,
+    version: settings.version,
+    description: `Logistic regression on ${FEATURE_NAMES.length} features, trained on ${symbols.join(", ")}`,
+    rsiMethod: settings.rsiMethod,
+    trainedAt: new Date().toISOString(),
+    symbols,
+    trainedThrough: Object.fromEntries(
+      Object.entries(histories)
+        .filter(([, stockData]) => stockData.length > 0)
+        .map(([symbol, stockData]) => [
+          symbol,
+          stockData[stockData.length - 1].date,
+        ]),
+    ),
+    timeframes: Object.fromEntries(
+      TIMEFRAMES.map((timeframe) => [
+        timeframe,
+        trainClassifier(bars, timeframe, settings),
+      ]),
+    ) as ModelStrategy["timeframes"],
+  };
+}
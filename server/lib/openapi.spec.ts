@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import { API_ROUTES } from "../routes/api";
+import { buildOpenApiDocument, toJsonSchema } from "./openapi";
+
+describe("toJsonSchema", () => {
+  it("should carry over types, bounds and optional fields", () => {
+    const schema = z.object({
+      symbol: z.string().min(1),
+      days: z.number().int().positive().max(252).optional(),
+      method: z.enum(["bootstrap", "gbm"]),
+      lines: z.record(z.string(), z.array(z.number().nullable())),
+    });
+
+    expect(toJsonSchema(schema)).toEqual({
+      type: "object",
+      properties: {
+        symbol: { type: "string", minLength: 1 },
+        days: { type: "integer", exclusiveMinimum: 0, maximum: 252 },
+        method: { type: "string", enum: ["bootstrap", "gbm"] },
+        lines: {
+          type: "object",
+          additionalProperties: {
+            type: "array",
+            items: { type: ["number", "null"] },
+          },
+        },
+      },
+      required: ["symbol", "method", "lines"],
+    });
+  });
+
+  it("should reference named schemas", () => {
+    const timeframe = z.enum(["today", "tomorrow"]);
+    const names = new Map([[timeframe, "Timeframe"]]);
+
+    expect(
+      toJsonSchema(z.object({ timeframe: timeframe.optional() }), names),
+    ).toEqual({
+      type: "object",
+      properties: { timeframe: { $ref: "#/components/schemas/Timeframe" } },
+    });
+    expect(toJsonSchema(timeframe, names, true)).toEqual({
+      type: "string",
+      enum: ["today", "tomorrow"],
+    });
+  });
+});
+
+describe("buildOpenApiDocument", () => {
+  const document = buildOpenApiDocument(API_ROUTES);
+
+  it("should describe every route", () => {
+    for (const route of API_ROUTES) {
+      const path = route.path.replace(/:(\w+)/g, "{$1}");
+      expect(document.paths[path][route.method].operationId).toBe(
+        route.operationId,
+      );
+    }
+  });
+
+  it("should only reference schemas it defines", () => {
+    const refs = JSON.stringify(document).matchAll(
+      /#\/components\/schemas\/(\w+)/g,
+    );
+    for (const [, name] of refs) {
+      expect(document.components.schemas).toHaveProperty(name);
+    }
+  });
+
+  it("should turn path segments and query schemas into parameters", () => {
+    const { parameters } = document.paths["/api/indicators/{symbol}"].get;
+
+    expect(parameters.map((p) => [p.name, p.in, p.required])).toEqual([
+      ["symbol", "path", true],
+      ["from", "query", false],
+      ["to", "query", false],
+      ["interval", "query", false],
+      ["provider", "query", false],
+      ["names", "query", true],
+    ]);
+    expect(parameters[0].schema).toMatchObject({
+      type: "string",
+      maxLength: 15,
+    });
+  });
+
+  it("should require the admin token on admin operations", () => {
+    const { delete: invalidate } = document.paths["/api/admin/cache"];
+
+    expect(invalidate.security).toEqual([{ adminToken: [] }]);
+    expect(Object.keys(invalidate.responses)).toEqual(
+      expect.arrayContaining(["401", "403"]),
+    );
+    expect(document.components.securitySchemes).toHaveProperty("adminToken");
+    expect(document.paths["/api/predict"].post.security).toBeUndefined();
+  });
+});
@@ -0,0 +1,332 @@
+import { RequestHandler } from "express";
+import { z, ZodTypeAny } from "zod";
+import * as api from "../../shared/api";
+import {
+  OpenApiDocument,
+  OpenApiOperation,
+  OpenApiParameter,
+} from "@shared/api";
+
+type JsonSchema = Record<string, unknown>;
+
+/** Named schemas are emitted once under components and referenced elsewhere */
+type SchemaNames = Map<ZodTypeAny, string>;
+
+export interface ApiRoute {
+  method: "get" | "post" | "delete";
+  /** Express path, e.g. /api/history/:symbol */
+  path: string;
+  operationId: string;
+  tag: string;
+  summary: string;
+  description?: string;
+  handler: RequestHandler;
+  /** Path parameters; those left out are described as plain strings */
+  params?: ZodTypeAny;
+  query?: ZodTypeAny;
+  body?: ZodTypeAny;
+  response: ZodTypeAny;
+  /** Statuses besides 200 and 500 that the route answers with */
+  errors?: (400 | 404 | 422 | 429)[];
+  /** Only served with ADMIN_TOKEN as a bearer token; answers 401 and 403 */
+  admin?: boolean;
+  /** Prefilled in the explorer */
+  examples?: {
+    params?: Record<string, string>;
+    query?: Record<string, string>;
+    body?: unknown;
+  };
+}
+
+export class UnsupportedSchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnsupportedSchemaError";
+  }
+}
+
+// Name of the bearer scheme that admin operations require
+const ADMIN_SECURITY_SCHEME = "adminToken";
+
+const ERROR_RESPONSES = {
+  400: { description: "Invalid request", schema: api.errorResponseSchema },
+  401: {
+    description: "The admin token is missing or wrong",
+    schema: api.errorResponseSchema,
+  },
+  403: {
+    description: "Admin endpoints are disabled",
+    schema: api.errorResponseSchema,
+  },
+  404: {
+    description: "No market data for the symbol",
+    schema: api.errorResponseSchema,
+  },
+  422: {
+    description: "The market data could not be used",
+    schema: api.dataErrorResponseSchema,
+  },
+  429: {
+    description: "The market data provider's quota is spent",
+    schema: api.rateLimitedResponseSchema,
+  },
+  500: {
+    description: "Internal server error",
+    schema: api.errorResponseSchema,
+  },
+};
+
+/** Every exported `fooSchema` in shared/api.ts, named `Foo` */
+export function sharedSchemaNames(): SchemaNames {
+  const names: SchemaNames = new Map();
+  for (const [key, value] of Object.entries(api)) {
+    if (value instanceof z.ZodType && key.endsWith("Schema")) {
+      const name = key.slice(0, -"Schema".length);
+      names.set(value, name[0].toUpperCase() + name.slice(1));
+    }
+  }
+  return names;
+}
+
+function numberSchema(schema: z.ZodNumber): JsonSchema {
+  const json: JsonSchema = { type: "number" };
+  for (const check of schema._def.checks) {
+    if (check.kind === "int") json.type = "integer";
+    if (check.kind === "min") {
+      json[check.inclusive ? "minimum" : "exclusiveMinimum"] = check.value;
+    }
+    if (check.kind === "max") {
+      json[check.inclusive ? "maximum" : "exclusiveMaximum"] = check.value;
+    }
+  }
+  return json;
+}
+
+function stringSchema(schema: z.ZodString): JsonSchema {
+  const json: JsonSchema = { type: "string" };
+  for (const check of schema._def.checks) {
+    if (check.kind === "min") json.minLength = check.value;
+    if (check.kind === "max") json.maxLength = check.value;
+    if (check.kind === "regex") json.pattern = check.regex.source;
+  }
+  return json;
+}
+
+function objectSchema(schema: z.AnyZodObject, names: SchemaNames): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+  for (const [key, value] of Object.entries<ZodTypeAny>(schema.shape)) {
+    properties[key] = toJsonSchema(value, names);
+    if (!value.isOptional()) required.push(key);
+  }
+  return {
+    type: "object",
+    properties,
+    ...(required.length > 0 && { required }),
+  };
+}
+
+function convert(schema: ZodTypeAny, names: SchemaNames): JsonSchema {
+  if (schema instanceof z.ZodOptional) {
+    return toJsonSchema(schema.unwrap(), names);
+  }
+  if (schema instanceof z.ZodNullable) {
+    const inner = toJsonSchema(schema.unwrap(), names);
+    return typeof inner.type === "string"
+      ? { ...inner, type: [inner.type, "null"] }
+      : { anyOf: [inner, { type: "null" }] };
+  }
+  if (schema instanceof z.ZodEffects) {
+    return toJsonSchema(schema.innerType(), names);
+  }
+  if (schema instanceof z.ZodString) return stringSchema(schema);
+  if (schema instanceof z.ZodNumber) return numberSchema(schema);
+  if (schema instanceof z.ZodBoolean) return { type: "boolean" };
+  if (schema instanceof z.ZodUnknown || schema instanceof z.ZodAny) return {};
+  if (schema instanceof z.ZodEnum) {
+    return { type: "string", enum: [...schema.options] };
+  }
+  if (schema instanceof z.ZodArray) {
+    const { minLength, maxLength } = schema._def;
+    return {
+      type: "array",
+      items: toJsonSchema(schema.element, names),
+      ...(minLength && { minItems: minLength.value }),
+      ...(maxLength && { maxItems: maxLength.value }),
+    };
+  }
+  if (schema instanceof z.ZodObject) return objectSchema(schema, names);
+  if (schema instanceof z.ZodRecord) {
+    const keys = schema.keySchema;
+    return {
+      type: "object",
+      ...(keys instanceof z.ZodEnum && {
+        propertyNames: { enum: [...keys.options] },
+      }),
+      additionalProperties: toJsonSchema(schema.valueSchema, names),
+    };
+  }
+  if (schema instanceof z.ZodUnion) {
+    return {
+      anyOf: (schema.options as ZodTypeAny[]).map((option) =>
+        toJsonSchema(option, names),
+      ),
+    };
+  }
+  if (schema instanceof z.ZodIntersection) {
+    return {
+      allOf: [
+        toJsonSchema(schema._def.left, names),
+        toJsonSchema(schema._def.right, names),
+      ],
+    };
+  }
+  throw new UnsupportedSchemaError(
+    `Cannot describe ${schema._def.typeName} in JSON Schema`,
+  );
+}
+
+/**
+ * JSON Schema (2020-12, as OpenAPI 3.1 uses) for a zod schema. Named
+ * schemas become `$ref`s, except at the root of their own definition.
+ * Refinements cannot be expressed and are left out.
+ */
+export function toJsonSchema(
+  schema: ZodTypeAny,
+  names: SchemaNames = new Map(),
+  root = false,
+): JsonSchema {
+  const name = names.get(schema);
+  if (name && !root) return { $ref: `#/components/schemas/${name}` };
+  const json = convert(schema, names);
+  return schema.description
+    ? { ...json, description: schema.description }
+    : json;
+}
+
+// The fields of an object schema, through refinements and intersections
+function objectShape(schema: ZodTypeAny): Record<string, ZodTypeAny> {
+  if (schema instanceof z.ZodEffects) return objectShape(schema.innerType());
+  if (schema instanceof z.ZodIntersection) {
+    return {
+      ...objectShape(schema._def.left),
+      ...objectShape(schema._def.right),
+    };
+  }
+  if (schema instanceof z.ZodObject) return schema.shape;
+  throw new UnsupportedSchemaError(
+    `Parameters need an object schema, got ${schema._def.typeName}`,
+  );
+}
+
+function parameters(route: ApiRoute, names: SchemaNames): OpenApiParameter[] {
+  const { params = {}, query = {} } = route.examples ?? {};
+  const pathSchemas = route.params ? objectShape(route.params) : {};
+  const pathParameters = Array.from(
+    route.path.matchAll(/:(\w+)/g),
+    ([, name]): OpenApiParameter => ({
+      name,
+      in: "path",
+      required: true,
+      schema: pathSchemas[name]
+        ? toJsonSchema(pathSchemas[name], names)
+        : { type: "string" },
+      ...(params[name] && { example: params[name] }),
+    }),
+  );
+  const queryParameters = Object.entries(
+    route.query ? objectShape(route.query) : {},
+  ).map(
+    ([name, schema]): OpenApiParameter => ({
+      name,
+      in: "query",
+      required: !schema.isOptional(),
+      schema: toJsonSchema(schema, names),
+      ...(query[name] && { example: query[name] }),
+    }),
+  );
+  return [...pathParameters, ...queryParameters];
+}
+
+function operation(route: ApiRoute, names: SchemaNames): OpenApiOperation {
+  const json = (schema: ZodTypeAny) => ({
+    "application/json": { schema: toJsonSchema(schema, names) },
+  });
+
+  const responses: OpenApiOperation["responses"] = {
+    200: { description: "OK", content: json(route.response) },
+  };
+  const statuses = [
+    ...(route.errors ?? []),
+    ...(route.admin ? ([401, 403] as const) : []),
+    500,
+  ] as const;
+  for (const status of statuses) {
+    const { description, schema } = ERROR_RESPONSES[status];
+    responses[status] = { description, content: json(schema) };
+  }
+
+  const parameterList = parameters(route, names);
+  return {
+    operationId: route.operationId,
+    tags: [route.tag],
+    summary: route.summary,
+    ...(route.description && { description: route.description }),
+    ...(parameterList.length > 0 && { parameters: parameterList }),
+    ...(route.admin && { security: [{ [ADMIN_SECURITY_SCHEME]: [] }] }),
+    ...(route.body && {
+      requestBody: {
+        required: true,
+        content: {
+          "application/json": {
+            schema: toJsonSchema(route.body, names),
+            ...(route.examples?.body !== undefined && {
+              example: route.examples.body,
+            }),
+          },
+        },
+      },
+    }),
+    responses,
+  };
+}
+
+/**
+ * OpenAPI 3.1 description of the given routes, with every shared contract
+ * under components
+ */
+export function buildOpenApiDocument(routes: ApiRoute[]): OpenApiDocument {
+  const names = sharedSchemaNames();
+
+  const paths: OpenApiDocument["paths"] = {};
+  for (const route of routes) {
+    const path = route.path.replace(/:(\w+)/g, "{$1}");
+    paths[path] = { ...paths[path], [route.method]: operation(route, names) };
+  }
+
+  const schemas: OpenApiDocument["components"]["schemas"] = {};
+  for (const [schema, name] of names) {
+    schemas[name] = toJsonSchema(schema, names, true);
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "TradePredict API",
+      version: "1.0.0",
+      description:
+        "Stock signal predictions, backtests, simulations and market data",
+    },
+    paths,
+    components: {
+      schemas,
+      securitySchemes: {
+        [ADMIN_SECURITY_SCHEME]: {
+          type: "http",
+          scheme: "bearer",
+          description: "The server's ADMIN_TOKEN",
+        },
+      },
+    },
+  };
+}
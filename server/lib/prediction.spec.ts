@@ -0,0 +1,142 @@
+import { describe, it, expect } from "vitest";
+import { scoreFeatures, StockFeatures } from "./prediction";
+import { getStrategy, RuleStrategy, strategySchema } from "./strategies";
+
+const features: StockFeatures = {
+  rsi: 25,
+  trend: "BULLISH",
+  volatility: "NORMAL",
+  volume_trend: "INCREASING",
+  rsi_crossover: "NONE",
+  rsi_divergence: "NONE",
+  macd_histogram: 0.5,
+  adx: 30,
+};
+
+const strategy: RuleStrategy = {
+  name: "test",
+  version: 1,
+  description: "Test strategy",
+  rsiMethod: "wilder",
+  rules: [
+    {
+      id: "oversold",
+      description: "",
+      group: "rsi",
+      when: [{ feature: "rsi", lt: 30 }],
+      score: 2,
+    },
+    {
+      id: "below-50",
+      description: "",
+      group: "rsi",
+      when: [{ feature: "rsi", lt: 50 }],
+      score: 2,
+    },
+    {
+      id: "bullish",
+      description: "",
+      when: [{ feature: "trend", equals: "BULLISH" }],
+      score: 2,
+    },
+  ],
+  adjustments: [
+    {
+      id: "volatile",
+      description: "",
+      when: [{ feature: "volatility", equals: "HIGH" }],
+      scoreMultiplier: 0.25,
+    },
+  ],
+  scoreThreshold: 1,
+  timeframes: {
+    today: {
+      scoreMultiplier: 1,
+      confidenceMultiplier: 0.5,
+      confidenceThreshold: 0.6,
+    },
+    tomorrow: {
+      scoreMultiplier: 1,
+      confidenceMultiplier: 1,
+      confidenceThreshold: 0.6,
+    },
+  },
+};
+
+describe("scoreFeatures", () => {
+  it("should fire only the first matching rule of a group", () => {
+    // oversold + bullish fire, below-50 is skipped: 4 of a possible 4
+    const result = scoreFeatures(features, "tomorrow", strategy);
+    expect(result).toMatchObject({ prediction: "BUY", confidence: 100 });
+    expect(result.explanation.rules.map((rule) => rule.id)).toEqual([
+      "oversold",
+      "bullish",
+    ]);
+    expect(result.explanation.rules[0].conditions).toEqual([
+      { feature: "rsi", actual: 25, expected: "< 30" },
+    ]);
+  });
+
+  it("should apply adjustments and timeframe settings", () => {
+    const volatile = scoreFeatures(
+      { ...features, volatility: "HIGH" },
+      "tomorrow",
+      strategy,
+    );
+    expect(volatile).toMatchObject({ prediction: "HOLD", confidence: 25 });
+    expect(volatile.explanation).toMatchObject({ rawScore: 4, finalScore: 1 });
+
+    const today = scoreFeatures(features, "today", strategy);
+    expect(today).toMatchObject({ prediction: "HOLD", confidence: 50 });
+    expect(today.explanation.adjustments).toEqual([
+      expect.objectContaining({ target: "confidence", multiplier: 0.5 }),
+    ]);
+  });
+
+  it("should adapt weights and thresholds to the regime", () => {
+    const adaptive: RuleStrategy = {
+      ...strategy,
+      regimes: {
+        ranging: { weights: { rsi: 0.5, bullish: 0 } },
+        highVolatility: {
+          scoreThresholdMultiplier: 2,
+          confidenceThresholdOffset: 0.1,
+        },
+      },
+    };
+    const result = scoreFeatures(features, "tomorrow", adaptive, {
+      trend: "ranging",
+      volatility: "high",
+      adx: 15,
+      slope: 0.5,
+      volatilityPercentile: 90,
+    });
+
+    // oversold counts 1 and bullish nothing: 1 of a possible 4
+    expect(result).toMatchObject({ prediction: "HOLD", confidence: 25 });
+    expect(result.explanation.rules[0]).toMatchObject({
+      contribution: 1,
+      weight: 0.5,
+    });
+    expect(result.explanation).toMatchObject({
+      scoreThreshold: 2,
+      confidenceThreshold: 70,
+    });
+  });
+});
+
+describe("strategies", () => {
+  it("should resolve names to their latest version", () => {
+    expect(getStrategy("classic").version).toBe(3);
+    expect(getStrategy("classic@1").rsiMethod).toBe("simple");
+    expect(getStrategy("classic@9")).toBeUndefined();
+  });
+
+  it("should reject malformed strategy configs", () => {
+    const result = strategySchema.safeParse({
+      ...strategy,
+      rules: [{ id: "x", description: "", when: [], score: 1 }],
+    });
+    expect(result.success).toBe(false);
+  });
+});
@@ -0,0 +1,391 @@
+import {
+  ExplanationAdjustment,
+  ExplanationRule,
+  RegimeReport,
+  PredictionExplanation,
+  SignalProbabilities,
+  StockFeatures,
+  Timeframe,
+} from "@shared/api";
+import {
+  adx as adxSeries,
+  bollingerBands,
+  macd as macdSeries,
+  rsi as rsiSeries,
+  rsiCrossover,
+  rsiDivergence,
+  RsiMethod,
+  Series,
+  sma as smaSeries,
+} from "../../shared/indicators";
+import { HORIZONS, IndicatorWindows } from "./horizons";
+import { featureVector, FEATURE_NAMES } from "./ml/features";
+import { CLASSES, contributions, predictProbabilities } from "./ml/logistic";
+import { StockData } from "./providers";
+import { detectRegime, regimeKeys } from "./regime";
+import {
+  Condition,
+  getStrategy,
+  ModelStrategy,
+  RuleStrategy,
+  StrategyConfig,
+} from "./strategies";
+
+export type Signal = "BUY" | "SELL" | "HOLD";
+
+export type { StockFeatures, Timeframe };
+
+// Value of an indicator series at the last bar, or the fallback while there
+// is not enough history for one
+const latest = (series: Series, fallback: number) =>
+  series[series.length - 1] ?? fallback;
+
+/**
+ * Derive features at the last bar. `windows` sets the indicator lookbacks;
+ * the defaults are the daily ones used for "today" and "tomorrow".
+ */
+export function analyzeStock(
+  stockData: StockData[],
+  rsiMethod: RsiMethod = "wilder",
+  windows: IndicatorWindows = HORIZONS.tomorrow.windows,
+): StockFeatures {
+  const closes = stockData.map((d) => d.close);
+  const volumes = stockData.map((d) => d.volume);
+
+  // Calculate RSI, neutral until there is enough history
+  const rsiValues = rsiSeries(closes, windows.rsi, rsiMethod);
+  const rsi = rsiValues[rsiValues.length - 1] ?? 50;
+
+  const currentPrice = closes[closes.length - 1];
+
+  // Calculate trend using moving averages
+  const fastSma = latest(smaSeries(closes, windows.fastSma), currentPrice);
+  const slowSma = latest(smaSeries(closes, windows.slowSma), currentPrice);
+  const trend = fastSma > slowSma ? "BULLISH" : "BEARISH";
+
+  // Calculate volatility using Bollinger Bands
+  const bb = bollingerBands(closes, windows.bollinger);
+  let volatility: StockFeatures["volatility"] = "NORMAL";
+
+  if (currentPrice > latest(bb.upper, currentPrice)) volatility = "HIGH";
+  else if (currentPrice < latest(bb.lower, currentPrice)) volatility = "LOW";
+
+  // Volume trend
+  const recentVolume = latest(
+    smaSeries(volumes, windows.volume),
+    volumes[volumes.length - 1],
+  );
+  const olderVolumes = volumes.slice(-4 * windows.volume, -windows.volume);
+  const olderVolume = latest(
+    smaSeries(olderVolumes, 3 * windows.volume),
+    olderVolumes[olderVolumes.length - 1] ?? recentVolume,
+  );
+  const volume_trend = recentVolume > olderVolume ? "INCREASING" : "DECREASING";
+
+  // Momentum and trend strength, zero until there is enough history
+  const { fast, slow, signal } = windows.macd;
+  const histogram = macdSeries(closes, fast, slow, signal).histogram;
+  const adx = adxSeries(stockData, windows.adx).adx;
+
+  return {
+    rsi: Math.round(rsi * 100) / 100,
+    trend,
+    volatility,
+    volume_trend,
+    rsi_crossover: rsiCrossover(rsiValues),
+    rsi_divergence: rsiDivergence(closes, rsiValues, windows.rsi),
+    macd_histogram:
+      Math.round((histogram[histogram.length - 1] ?? 0) * 10000) / 10000,
+    adx: Math.round((adx[adx.length - 1] ?? 0) * 100) / 100,
+  };
+}
+
+function matches(condition: Condition, features: StockFeatures) {
+  const value = features[condition.feature as keyof StockFeatures];
+  if (value === undefined) return false;
+  if (condition.equals !== undefined && String(value) !== condition.equals) {
+    return false;
+  }
+  if (typeof value !== "number") {
+    return (
+      condition.lt === undefined &&
+      condition.lte === undefined &&
+      condition.gt === undefined &&
+      condition.gte === undefined
+    );
+  }
+  return (
+    (condition.lt === undefined || value < condition.lt) &&
+    (condition.lte === undefined || value <= condition.lte) &&
+    (condition.gt === undefined || value > condition.gt) &&
+    (condition.gte === undefined || value >= condition.gte)
+  );
+}
+
+function describeCondition(
+  condition: Condition,
+  features: StockFeatures,
+): ExplanationRule["conditions"][number] {
+  const bounds = (
+    [
+      ["equals", "="],
+      ["lt", "<"],
+      ["lte", "≤"],
+      ["gt", ">"],
+      ["gte", "≥"],
+    ] as const
+  )
+    .filter(([key]) => condition[key] !== undefined)
+    .map(([key, symbol]) => `${symbol} ${condition[key]}`);
+
+  return {
+    feature: condition.feature,
+    actual: features[condition.feature as keyof StockFeatures],
+    expected: bounds.join(" and "),
+  };
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// The strategy's settings for a regime, combined across the labels that apply
+function regimeSettings(strategy: RuleStrategy, regime?: RegimeReport) {
+  const combined = {
+    weights: {} as Record<string, number>,
+    scoreThresholdMultiplier: 1,
+    confidenceThresholdOffset: 0,
+  };
+  if (!strategy.regimes || !regime) return combined;
+
+  for (const key of regimeKeys(regime)) {
+    const settings = strategy.regimes[key];
+    if (!settings) continue;
+    for (const [target, weight] of Object.entries(settings.weights ?? {})) {
+      combined.weights[target] = (combined.weights[target] ?? 1) * weight;
+    }
+    combined.scoreThresholdMultiplier *= settings.scoreThresholdMultiplier ?? 1;
+    combined.confidenceThresholdOffset +=
+      settings.confidenceThresholdOffset ?? 0;
+  }
+  return combined;
+}
+
+export interface ScoredPrediction {
+  prediction: Signal;
+  confidence: number;
+  explanation: PredictionExplanation;
+  /** Only model strategies produce probabilities */
+  probabilities?: SignalProbabilities;
+}
+
+/**
+ * Score features with a strategy: fire matching rules (only the first match
+ * per group), apply score adjustments, derive confidence from the score's
+ * share of the largest possible score, then apply the timeframe settings.
+ * When the strategy defines regime settings and a regime is given, rule
+ * weights and both thresholds adapt to it. Every step that touched the
+ * result is itemized in the explanation.
+ */
+export function scoreFeatures(
+  features: StockFeatures,
+  timeframe: Timeframe,
+  strategy: RuleStrategy,
+  regime?: RegimeReport,
+): ScoredPrediction {
+  const adapted = regimeSettings(strategy, regime);
+  let score = 0;
+  let signals = 0;
+  const firedGroups = new Set<string>();
+  const rules: ExplanationRule[] = [];
+  const adjustments: ExplanationAdjustment[] = [];
+
+  for (const rule of strategy.rules) {
+    if (rule.group && firedGroups.has(rule.group)) continue;
+    if (!rule.when.every((condition) => matches(condition, features))) {
+      continue;
+    }
+    if (rule.group) firedGroups.add(rule.group);
+    const weight = adapted.weights[rule.id] ?? adapted.weights[rule.group] ?? 1;
+    score += rule.score * weight;
+    signals++;
+    rules.push({
+      id: rule.id,
+      description: rule.description,
+      contribution: round(rule.score * weight),
+      ...(weight !== 1 && { weight }),
+      conditions: rule.when.map((condition) =>
+        describeCondition(condition, features),
+      ),
+    });
+  }
+
+  const rawScore = score;
+
+  for (const adjustment of strategy.adjustments) {
+    if (adjustment.when.every((condition) => matches(condition, features))) {
+      score *= adjustment.scoreMultiplier;
+      adjustments.push({
+        id: adjustment.id,
+        description: adjustment.description,
+        target: "score",
+        multiplier: adjustment.scoreMultiplier,
+      });
+    }
+  }
+
+  // Calculate confidence based on signal strength
+  const maxRuleScore = Math.max(
+    ...strategy.rules.map((rule) => Math.abs(rule.score)),
+  );
+  const maxPossibleScore = signals * maxRuleScore;
+  let confidence =
+    maxPossibleScore > 0 ? Math.min(Math.abs(score) / maxPossibleScore, 1) : 0;
+
+  // Adjust for the timeframe
+  const settings =
+    strategy.timeframes[timeframe] ?? HORIZONS[timeframe].defaults;
+  confidence *= settings.confidenceMultiplier;
+  score *= settings.scoreMultiplier;
+
+  if (settings.confidenceMultiplier !== 1) {
+    adjustments.push({
+      id: `timeframe-${timeframe}`,
+      description: `Confidence scaled for the ${timeframe} timeframe`,
+      target: "confidence",
+      multiplier: settings.confidenceMultiplier,
+    });
+  }
+  if (settings.scoreMultiplier !== 1) {
+    adjustments.push({
+      id: `timeframe-${timeframe}`,
+      description: `Signal strength scaled for the ${timeframe} timeframe`,
+      target: "score",
+      multiplier: settings.scoreMultiplier,
+    });
+  }
+
+  const scoreThreshold =
+    strategy.scoreThreshold * adapted.scoreThresholdMultiplier;
+  const confidenceThreshold = Math.min(
+    Math.max(
+      settings.confidenceThreshold + adapted.confidenceThresholdOffset,
+      0,
+    ),
+    1,
+  );
+
+  // Make prediction
+  let prediction: Signal;
+
+  if (score > scoreThreshold && confidence > confidenceThreshold) {
+    prediction = "BUY";
+  } else if (score < -scoreThreshold && confidence > confidenceThreshold) {
+    prediction = "SELL";
+  } else {
+    prediction = "HOLD";
+  }
+
+  return {
+    prediction,
+    confidence: Math.round(confidence * 100),
+    explanation: {
+      rules,
+      adjustments,
+      rawScore: round(rawScore),
+      finalScore: round(score),
+      scoreThreshold: round(scoreThreshold),
+      confidenceThreshold: Math.round(confidenceThreshold * 100),
+    },
+  };
+}
+
+// Number of features itemized in a model's explanation
+const EXPLAINED_FEATURES = 5;
+
+/**
+ * Predict the most likely class with a trained classifier. Confidence is that
+ * class's calibrated probability, and the features that pushed hardest
+ * toward or away from it are itemized in the explanation.
+ */
+export function scoreModel(
+  features: StockFeatures,
+  stockData: StockData[],
+  timeframe: Timeframe,
+  strategy: ModelStrategy,
+): ScoredPrediction {
+  const classifier = strategy.timeframes[timeframe];
+  if (!classifier) {
+    throw new Error(
+      `${strategy.name}@${strategy.version} has no ${timeframe} model`,
+    );
+  }
+  const vector = featureVector(features, stockData);
+  const probabilities = predictProbabilities(classifier, vector);
+  const best = probabilities.indexOf(Math.max(...probabilities));
+  const prediction = CLASSES[best];
+  const pushes = contributions(classifier, vector, best);
+
+  const rules: ExplanationRule[] = pushes
+    .map((contribution, j) => ({ contribution, j }))
+    .sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution))
+    .slice(0, EXPLAINED_FEATURES)
+    .map(({ contribution, j }) => ({
+      id: FEATURE_NAMES[j],
+      description: `${FEATURE_NAMES[j]} ${contribution > 0 ? "favors" : "argues against"} ${prediction}`,
+      contribution: round(contribution),
+      conditions: [
+        {
+          feature: FEATURE_NAMES[j],
+          actual: round(vector[j]),
+          expected: `training mean ${round(classifier.means[j])}`,
+        },
+      ],
+    }));
+
+  const margin = pushes.reduce((sum, push) => sum + push, 0);
+  const toPercent = (p: number) => Math.round(p * 10000) / 100;
+
+  return {
+    prediction,
+    confidence: Math.round(probabilities[best] * 100),
+    explanation: {
+      rules,
+      adjustments: [
+        {
+          id: "temperature",
+          description: "Probabilities calibrated on held-out data",
+          target: "score",
+          multiplier: round(1 / classifier.temperature),
+        },
+      ],
+      rawScore: round(margin * classifier.temperature),
+      finalScore: round(margin),
+      scoreThreshold: 0,
+      confidenceThreshold: 0,
+    },
+    probabilities: {
+      BUY: toPercent(probabilities[CLASSES.indexOf("BUY")]),
+      SELL: toPercent(probabilities[CLASSES.indexOf("SELL")]),
+      HOLD: toPercent(probabilities[CLASSES.indexOf("HOLD")]),
+    },
+  };
+}
+
+export function makePrediction(
+  stockData: StockData[],
+  timeframe: Timeframe,
+  strategy: StrategyConfig = getStrategy(),
+): ScoredPrediction {
+  const features = analyzeStock(
+    stockData,
+    strategy.rsiMethod,
+    HORIZONS[timeframe].windows,
+  );
+  if (strategy.kind === "model") {
+    return scoreModel(features, stockData, timeframe, strategy);
+  }
+  // Only strategies that adapt to the regime pay for detecting it
+  const regime = strategy.regimes
+    ? detectRegime(stockData, HORIZONS[timeframe].windows)
+    : undefined;
+  return scoreFeatures(features, timeframe, strategy, regime);
+}
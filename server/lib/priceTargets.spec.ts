@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { PriceTargets } from "@shared/api";
+import { forecastPriceTargets } from "./priceTargets";
+import { generateSyntheticData } from "./providers/synthetic";
+
+const bars = generateSyntheticData("TEST", { endDate: "2024-06-28" });
+
+const ordered = ({ median, percentiles }: PriceTargets) =>
+  percentiles.p5 <= percentiles.p25 &&
+  percentiles.p25 <= median &&
+  median <= percentiles.p75 &&
+  percentiles.p75 <= percentiles.p95;
+
+describe("forecastPriceTargets", () => {
+  it("should draw percentiles from every past move over the horizon", () => {
+    const targets = forecastPriceTargets(bars, "1w");
+    expect(targets).toMatchObject({
+      method: "historical",
+      horizonBars: 5,
+      sampleSize: 100 - 5,
+    });
+    expect(ordered(targets)).toBe(true);
+  });
+
+  it("should widen the range for longer horizons", () => {
+    const width = (timeframe: "tomorrow" | "1m") => {
+      const { percentiles } = forecastPriceTargets(bars, timeframe, "atr");
+      return percentiles.p95 - percentiles.p5;
+    };
+    expect(width("1m")).toBeGreaterThan(width("tomorrow"));
+  });
+
+  it("should fall back to ATR when history is short", () => {
+    const targets = forecastPriceTargets(bars.slice(-40), "1m");
+    expect(targets.method).toBe("atr");
+    expect(targets.median).toBe(targets.basePrice);
+    expect(ordered(targets)).toBe(true);
+  });
+});
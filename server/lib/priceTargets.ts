@@ -0,0 +1,95 @@
+import { PriceTargets, PriceTargetMethod } from "@shared/api";
+import { atr } from "../../shared/indicators";
+import { HORIZONS } from "./horizons";
+import { Timeframe } from "./prediction";
+import { StockData } from "./providers";
+
+// Fewer past returns than this make the empirical percentiles too coarse,
+// so the historical method falls back to ATR
+const MIN_HISTORICAL_RETURNS = 30;
+
+// Standard normal quantiles for the reported percentiles
+const Z = { p5: -1.6449, p25: -0.6745, p75: 0.6745, p95: 1.6449 };
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Linear interpolation between closest ranks, on sorted values
+function percentile(sorted: number[], p: number) {
+  const rank = (sorted.length - 1) * p;
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+function fromHistory(
+  closes: number[],
+  bars: number,
+): Omit<PriceTargets, "basePrice" | "horizonBars"> {
+  const base = closes[closes.length - 1];
+  const returns = closes
+    .slice(bars)
+    .map((close, i) => close / closes[i] - 1)
+    .sort((a, b) => a - b);
+
+  const price = (p: number) => round(base * (1 + percentile(returns, p)));
+
+  return {
+    method: "historical",
+    sampleSize: returns.length,
+    median: price(0.5),
+    percentiles: {
+      p5: price(0.05),
+      p25: price(0.25),
+      p75: price(0.75),
+      p95: price(0.95),
+    },
+  };
+}
+
+function fromAtr(
+  stockData: StockData[],
+  bars: number,
+): Omit<PriceTargets, "basePrice" | "horizonBars"> {
+  const base = stockData[stockData.length - 1].close;
+  const values = atr(stockData);
+  const latest = values[values.length - 1] ?? 0;
+  // ATR as a share of price stands in for one bar's volatility; it grows
+  // with the square root of the horizon, with no drift
+  const sigma = (latest / base) * Math.sqrt(bars);
+  const price = (z: number) => round(base * Math.exp(z * sigma));
+
+  return {
+    method: "atr",
+    sampleSize: 0,
+    median: round(base),
+    percentiles: {
+      p5: price(Z.p5),
+      p25: price(Z.p25),
+      p75: price(Z.p75),
+      p95: price(Z.p95),
+    },
+  };
+}
+
+/**
+ * Expected price range at the end of the horizon, measured from the last
+ * close. "historical" takes percentiles of every past move over the same
+ * number of bars; "atr" assumes log-normal moves scaled from the current
+ * ATR. Forecasts for "today" cover one bar, like "tomorrow".
+ */
+export function forecastPriceTargets(
+  stockData: StockData[],
+  timeframe: Timeframe,
+  method: PriceTargetMethod = "historical",
+): PriceTargets {
+  const { bars } = HORIZONS[timeframe];
+  const closes = stockData.map((d) => d.close);
+  const useHistory =
+    method === "historical" && closes.length - bars >= MIN_HISTORICAL_RETURNS;
+
+  return {
+    basePrice: round(closes[closes.length - 1]),
+    horizonBars: bars,
+    ...(useHistory ? fromHistory(closes, bars) : fromAtr(stockData, bars)),
+  };
+}
@@ -0,0 +1,161 @@
+import fetch from "node-fetch";
+import {
+  createProviderClient,
+  ProviderClient,
+  RateLimitError,
+  TransientError,
+} from "./client";
+import { MarketDataError, MarketDataProvider, StockData } from "./types";
+
+const REQUEST_TIMEOUT = 10000; // 10 seconds
+
+// Bars in a "compact" response, the most recent ones
+const COMPACT_BARS = 100;
+
+// The free tier's quota; premium keys set their own through the environment
+const FREE_REQUESTS_PER_MINUTE = 5;
+const FREE_REQUESTS_PER_DAY = 25;
+
+function getApiKey() {
+  return process.env.ALPHA_VANTAGE_API_KEY || "demo";
+}
+
+/**
+ * fetch errors quote the request URL, key included. Blank it out of the
+ * message and stack before the error is logged or passed on.
+ */
+function redactKey(error: unknown) {
+  if (error instanceof Error) {
+    const redact = (text: string) =>
+      text.replace(/apikey=[^&\s]*/gi, "apikey=[redacted]");
+    error.message = redact(error.message);
+    if (error.stack) error.stack = redact(error.stack);
+  }
+  return error;
+}
+
+let client: ProviderClient;
+
+// Created on first use so the environment is loaded by then
+function getClient() {
+  client ??= createProviderClient(alphaVantageProvider, {
+    perMinute:
+      Number(process.env.ALPHA_VANTAGE_REQUESTS_PER_MINUTE) ||
+      FREE_REQUESTS_PER_MINUTE,
+    perDay:
+      Number(process.env.ALPHA_VANTAGE_REQUESTS_PER_DAY) ||
+      FREE_REQUESTS_PER_DAY,
+  });
+  return client;
+}
+
+// Seconds until the next UTC midnight, when the daily quota resets
+function secondsUntilTomorrow() {
+  const now = new Date();
+  const tomorrow = Date.UTC(
+    now.getUTCFullYear(),
+    now.getUTCMonth(),
+    now.getUTCDate() + 1,
+  );
+  return Math.ceil((tomorrow - now.getTime()) / 1000);
+}
+
+/**
+ * Alpha Vantage answers 200 with a "Note" or "Information" message when a
+ * key is over its quota. Block the client until the quota is likely back.
+ */
+function rateLimited(message: string) {
+  const seconds = /per day|daily/i.test(message) ? secondsUntilTomorrow() : 60;
+  getClient().limiter.block(seconds * 1000);
+  return new RateLimitError(alphaVantageProvider, seconds);
+}
+
+// Weekdays after `date` up to today; holidays make this an overestimate
+function weekdaysSince(date: string) {
+  const day = new Date(`${date}T00:00:00Z`);
+  const today = new Date();
+  let count = 0;
+  while (day < today) {
+    day.setUTCDate(day.getUTCDate() + 1);
+    if (day.getUTCDay() !== 0 && day.getUTCDay() !== 6) count++;
+  }
+  return count;
+}
+
+/**
+ * "compact" holds the last 100 bars, enough to top up a stored series.
+ * "full" goes back 20+ years but needs a premium key, so it is only asked
+ * for with ALPHA_VANTAGE_FULL_HISTORY=true and when compact would leave a
+ * gap. Without it the bar store drops the history before such a gap.
+ */
+function outputSize(since?: string) {
+  const needsMore = !since || weekdaysSince(since) > COMPACT_BARS;
+  return needsMore && process.env.ALPHA_VANTAGE_FULL_HISTORY === "true"
+    ? "full"
+    : "compact";
+}
+
+export const alphaVantageProvider: MarketDataProvider = {
+  id: "alphavantage",
+  name: "Alpha Vantage",
+  synthetic: false,
+  // The free tier throttles bursts, so fetch one symbol at a time
+  maxConcurrency: 1,
+  storeBars: true,
+
+  isAvailable() {
+    return getApiKey() !== "demo";
+  },
+
+  async fetchDaily(symbol, since) {
+    const url = `https://www.alphavantage.co/query?function=TIME_SERIES_DAILY&symbol=${encodeURIComponent(symbol)}&outputsize=${outputSize(since)}&apikey=${getApiKey()}`;
+
+    const data = await getClient().call(async () => {
+      const response = await fetch(url, {
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+      }).catch((error) => {
+        throw redactKey(error);
+      });
+      if (response.status === 429 || response.status >= 500) {
+        throw new TransientError(
+          `Alpha Vantage answered ${response.status}`,
+          this.id,
+        );
+      }
+      return (await response.json()) as any;
+    });
+
+    if (data["Error Message"]) {
+      throw new MarketDataError(data["Error Message"], this.id);
+    }
+    const notice = data["Note"] ?? data["Information"];
+    if (notice && /rate limit|requests per/i.test(notice)) {
+      throw rateLimited(notice);
+    }
+    if (notice) {
+      throw new MarketDataError(notice, this.id);
+    }
+
+    const timeSeries = data["Time Series (Daily)"];
+    if (!timeSeries) {
+      throw new MarketDataError(
+        `No daily time series returned for ${symbol}`,
+        this.id,
+      );
+    }
+
+    return Object.entries(timeSeries)
+      .filter(([date]) => !since || date >= since)
+      .map(
+        ([date, values]: [string, any]): StockData => ({
+          date,
+          open: parseFloat(values["1. open"]),
+          high: parseFloat(values["2. high"]),
+          low: parseFloat(values["3. low"]),
+          close: parseFloat(values["4. close"]),
+          volume: parseInt(values["5. volume"]),
+        }),
+      )
+      .reverse(); // Oldest first
+  },
+};
@@ -0,0 +1,81 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import {
+  RateLimiter,
+  RateLimitError,
+  TransientError,
+  withRetry,
+} from "./client";
+
+const provider = { id: "test", name: "Test" };
+const retry = { retries: 2, baseDelayMs: 1, maxDelayMs: 1 };
+
+describe("RateLimiter", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should queue requests past the per-minute quota", async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter(provider, { perMinute: 2 }, 60_000);
+    await limiter.acquire();
+    await limiter.acquire();
+
+    let third = false;
+    limiter.acquire().then(() => (third = true));
+    await vi.advanceTimersByTimeAsync(59_999);
+    expect(third).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(third).toBe(true);
+  });
+
+  it("should turn requests away when the wait is too long", async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter(provider, { perDay: 1 }, 15_000);
+    await limiter.acquire();
+
+    const turnedAway = limiter.acquire();
+    await expect(turnedAway).rejects.toBeInstanceOf(RateLimitError);
+    await expect(turnedAway).rejects.toMatchObject({
+      retryAfter: 24 * 60 * 60,
+      message: "Test rate limit reached, retry after 86400 seconds",
+    });
+  });
+
+  it("should hold requests while blocked", () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter(provider, {});
+    limiter.block(30_000);
+
+    expect(limiter.delay()).toBe(30_000);
+  });
+});
+
+describe("withRetry", () => {
+  it("should retry transient failures", async () => {
+    const attempt = vi
+      .fn()
+      .mockRejectedValueOnce(new TransientError("503", "test"))
+      .mockResolvedValueOnce("bars");
+
+    expect(await withRetry(attempt, retry)).toBe("bars");
+    expect(attempt).toHaveBeenCalledTimes(2);
+  });
+
+  it("should give up after the last retry", async () => {
+    const attempt = vi
+      .fn()
+      .mockRejectedValue(new TransientError("503", "test"));
+
+    await expect(withRetry(attempt, retry)).rejects.toThrow("503");
+    expect(attempt).toHaveBeenCalledTimes(3);
+  });
+
+  it("should not retry other failures", async () => {
+    const attempt = vi.fn().mockRejectedValue(new RateLimitError(provider, 60));
+
+    await expect(withRetry(attempt, retry)).rejects.toBeInstanceOf(
+      RateLimitError,
+    );
+    expect(attempt).toHaveBeenCalledTimes(1);
+  });
+});
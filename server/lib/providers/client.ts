@@ -0,0 +1,164 @@
+import { MarketDataError, MarketDataProvider } from "./types";
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+// A request that would wait longer than this for its slot fails instead
+const MAX_QUEUE_WAIT = 15 * 1000;
+
+type ProviderName = Pick<MarketDataProvider, "id" | "name">;
+
+/** Requests a provider accepts; unset limits are not enforced */
+export interface Quota {
+  perMinute?: number;
+  perDay?: number;
+}
+
+export interface RetryOptions {
+  /** Attempts after the first */
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+};
+
+/** The provider's quota is spent; nothing is fetched until `retryAfter` */
+export class RateLimitError extends MarketDataError {
+  constructor(
+    provider: ProviderName,
+    /** Seconds until a request may go out */
+    public readonly retryAfter: number,
+  ) {
+    super(
+      `${provider.name} rate limit reached, retry after ${retryAfter} seconds`,
+      provider.id,
+    );
+    this.name = "RateLimitError";
+  }
+}
+
+/** A failure worth retrying, such as a 5xx or a dropped connection */
+export class TransientError extends MarketDataError {
+  constructor(message: string, provider: string) {
+    super(message, provider);
+    this.name = "TransientError";
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function isTransient(error: unknown) {
+  return (
+    error instanceof TransientError ||
+    // Timeouts and network failures from fetch
+    (error instanceof Error &&
+      ["AbortError", "TimeoutError", "FetchError"].includes(error.name))
+  );
+}
+
+/**
+ * Keeps a provider's requests under its per-minute and per-day quotas.
+ * Callers queue in order for the next free slot. Counts are kept in memory,
+ * so a restart forgets the day's usage; a quota message from upstream
+ * blocks the limiter with `block`.
+ */
+export class RateLimiter {
+  // Start times of requests in the last day, oldest first
+  private calls: number[] = [];
+  private blockedUntil = 0;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    readonly provider: ProviderName,
+    readonly quota: Quota,
+    readonly maxWaitMs = MAX_QUEUE_WAIT,
+  ) {}
+
+  /** Milliseconds until a request may go out, 0 when one may go now */
+  delay(now = Date.now()): number {
+    this.calls = this.calls.filter((time) => time > now - DAY);
+    let wait = Math.max(0, this.blockedUntil - now);
+
+    const { perMinute, perDay } = this.quota;
+    const lastMinute = this.calls.filter((time) => time > now - MINUTE);
+    if (perMinute && lastMinute.length >= perMinute) {
+      const oldest = lastMinute[lastMinute.length - perMinute];
+      wait = Math.max(wait, oldest + MINUTE - now);
+    }
+    if (perDay && this.calls.length >= perDay) {
+      const oldest = this.calls[this.calls.length - perDay];
+      wait = Math.max(wait, oldest + DAY - now);
+    }
+    return wait;
+  }
+
+  /**
+   * Wait for a slot and take it. Throws a RateLimitError, without waiting,
+   * when the slot is further off than `maxWaitMs`.
+   */
+  acquire(): Promise<void> {
+    const turn = this.queue.then(async () => {
+      const wait = this.delay();
+      if (wait > this.maxWaitMs) {
+        throw new RateLimitError(this.provider, Math.ceil(wait / 1000));
+      }
+      if (wait > 0) await sleep(wait);
+      this.calls.push(Date.now());
+    });
+    // A caller turned away must not hold up the ones behind it
+    this.queue = turn.catch(() => {});
+    return turn;
+  }
+
+  /** Hold every request for `ms`, e.g. after upstream reports its quota spent */
+  block(ms: number) {
+    this.blockedUntil = Math.max(this.blockedUntil, Date.now() + ms);
+  }
+}
+
+/**
+ * Run `attempt`, retrying transient failures with full-jitter exponential
+ * backoff: each wait is random up to base * 2^n, capped at maxDelayMs.
+ */
+export async function withRetry<T>(
+  attempt: () => Promise<T>,
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS,
+): Promise<T> {
+  for (let n = 0; ; n++) {
+    try {
+      return await attempt();
+    } catch (error) {
+      if (n >= options.retries || !isTransient(error)) throw error;
+      const cap = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** n);
+      await sleep(Math.random() * cap);
+    }
+  }
+}
+
+export interface ProviderClient {
+  limiter: RateLimiter;
+  /** Send a request once the quota allows, retrying transient failures */
+  call<T>(request: () => Promise<T>): Promise<T>;
+}
+
+/** Every attempt, retries included, takes a slot from the quota */
+export function createProviderClient(
+  provider: ProviderName,
+  quota: Quota,
+  retry: RetryOptions = DEFAULT_RETRY_OPTIONS,
+): ProviderClient {
+  const limiter = new RateLimiter(provider, quota);
+  return {
+    limiter,
+    call: (request) =>
+      withRetry(async () => {
+        await limiter.acquire();
+        return request();
+      }, retry),
+  };
+}
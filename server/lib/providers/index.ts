@@ -0,0 +1,49 @@
+import { alphaVantageProvider } from "./alphaVantage";
+import { localFileProvider } from "./localFile";
+import { syntheticProvider } from "./synthetic";
+import { MarketDataProvider } from "./types";
+
+export * from "./types";
+export { DataFileError } from "./localFile";
+export { RateLimitError } from "./client";
+
+const providers = new Map<string, MarketDataProvider>();
+
+export function registerProvider(provider: MarketDataProvider) {
+  providers.set(provider.id, provider);
+}
+
+export function getProvider(id: string): MarketDataProvider | undefined {
+  return providers.get(id.toLowerCase());
+}
+
+export function listProviders(): MarketDataProvider[] {
+  return Array.from(providers.values());
+}
+
+/**
+ * Pick the provider to try first: the one named in the request, then
+ * MARKET_DATA_PROVIDER, then the first configured real data source.
+ * Synthetic data is only the default when nothing else is set up.
+ */
+export function resolveProvider(requested?: string): MarketDataProvider {
+  const id = requested || process.env.MARKET_DATA_PROVIDER;
+  if (id) {
+    const provider = getProvider(id);
+    if (!provider) {
+      throw new Error(`Unknown market data provider '${id}'`);
+    }
+    return provider;
+  }
+
+  return (
+    listProviders().find((p) => !p.synthetic && p.isAvailable()) ??
+    syntheticProvider
+  );
+}
+
+registerProvider(alphaVantageProvider);
+registerProvider(localFileProvider);
+registerProvider(syntheticProvider);
+
+export { syntheticProvider };
@@ -0,0 +1,139 @@
+import { describe, it, expect } from "vitest";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import {
+  createLocalFileProvider,
+  DataFileError,
+  parseCsv,
+  parseDate,
+  parseJson,
+} from "./localFile";
+
+describe("parseDate", () => {
+  it("should normalize supported formats to ISO dates", () => {
+    expect(parseDate("2024-03-05", "YYYY-MM-DD")).toBe("2024-03-05");
+    expect(parseDate("05/03/2024", "DD/MM/YYYY")).toBe("2024-03-05");
+    expect(parseDate("03/05/2024", "MM/DD/YYYY")).toBe("2024-03-05");
+    expect(parseDate("20240305", "YYYYMMDD")).toBe("2024-03-05");
+  });
+
+  it("should reject impossible dates", () => {
+    expect(parseDate("2024-02-30", "YYYY-MM-DD")).toBeNull();
+    expect(parseDate("2024/02/01", "YYYY-MM-DD")).toBeNull();
+  });
+});
+
+describe("parseCsv", () => {
+  it("should map columns and sort bars oldest first", () => {
+    const csv = [
+      "Day;Open;High;Low;Adj Close;Shares",
+      "02/01/2024;11;12;10;11.5;2000",
+      "01/01/2024;10;11;9;10.5;1000",
+    ].join("\n");
+
+    const bars = parseCsv(csv, "TEST.csv", {
+      delimiter: ";",
+      dateFormat: "DD/MM/YYYY",
+      columns: { date: "Day", close: "Adj Close", volume: "Shares" },
+    });
+
+    expect(bars).toEqual([
+      {
+        date: "2024-01-01",
+        open: 10,
+        high: 11,
+        low: 9,
+        close: 10.5,
+        volume: 1000,
+      },
+      {
+        date: "2024-01-02",
+        open: 11,
+        high: 12,
+        low: 10,
+        close: 11.5,
+        volume: 2000,
+      },
+    ]);
+  });
+
+  it("should report malformed rows with their line numbers", () => {
+    const csv = [
+      "date,open,high,low,close,volume",
+      "2024-01-01,10,11,9,10.5,1000",
+      "2024-01-02,abc,11,9,10.5,1000",
+      "2024-01-01,10,11,9,10.5,1000",
+      "2024-01-04,10,8,9,10.5,1000",
+    ].join("\n");
+
+    try {
+      parseCsv(csv, "TEST.csv");
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(DataFileError);
+      expect((error as DataFileError).issues.map((i) => i.row)).toEqual([
+        3, 4, 5,
+      ]);
+    }
+  });
+
+  it("should name missing columns", () => {
+    expect(() => parseCsv("date,close\n2024-01-01,1", "TEST.csv")).toThrow(
+      /open, high, low, volume/,
+    );
+  });
+
+  it("should reject unusable files as data file errors", () => {
+    expect(() => parseCsv("\n\n", "EMPTY.csv")).toThrow(
+      new DataFileError("EMPTY.csv", [], "is empty"),
+    );
+    expect(() => parseCsv("date,close\n2024-01-01,1", "TEST.csv")).toThrow(
+      DataFileError,
+    );
+  });
+});
+
+describe("parseJson", () => {
+  it("should read an array of bar objects", () => {
+    const json = JSON.stringify([
+      { t: "2024-01-01", open: 1, high: 2, low: 1, close: 2, volume: 5 },
+    ]);
+
+    expect(parseJson(json, "TEST.json", { columns: { date: "t" } })).toEqual([
+      { date: "2024-01-01", open: 1, high: 2, low: 1, close: 2, volume: 5 },
+    ]);
+  });
+
+  it("should reject invalid JSON as a data file error", () => {
+    expect(() => parseJson("[{", "BAD.json")).toThrow(DataFileError);
+    expect(() => parseJson("[{", "BAD.json")).toThrow(/not valid JSON/);
+  });
+
+  it("should reject JSON that is not an array as a data file error", () => {
+    expect(() => parseJson('{"close": 1}', "BAD.json")).toThrow(
+      new DataFileError("BAD.json", [], "must contain an array of bars"),
+    );
+  });
+});
+
+describe("createLocalFileProvider", () => {
+  it("should not read files outside its directory", async () => {
+    const root = mkdtempSync(path.join(tmpdir(), "local-file-"));
+    const directory = path.join(root, "data");
+    mkdirSync(directory);
+    writeFileSync(
+      path.join(root, "secret.csv"),
+      "date,open,high,low,close,volume\n2024-01-02,1,1,1,1,1\n",
+    );
+    const provider = createLocalFileProvider({ directory });
+
+    try {
+      await expect(provider.fetchDaily("../secret")).rejects.toThrow(
+        "Invalid symbol '../secret'",
+      );
+    } finally {
+      rmSync(root, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,339 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { isSymbol } from "../../../shared/api";
+import { MarketDataError, MarketDataProvider, StockData } from "./types";
+
+type Column = keyof StockData;
+
+const COLUMNS: Column[] = ["date", "open", "high", "low", "close", "volume"];
+
+export type DateFormat =
+  | "YYYY-MM-DD"
+  | "DD/MM/YYYY"
+  | "MM/DD/YYYY"
+  | "YYYYMMDD";
+
+export interface LocalFileOptions {
+  /** Directory holding one `<SYMBOL>.csv` or `<SYMBOL>.json` file per symbol */
+  directory: string;
+  /** Source column (or JSON key) for each field, defaults to the field name */
+  columns?: Partial<Record<Column, string>>;
+  dateFormat?: DateFormat;
+  delimiter?: string;
+}
+
+export interface RowIssue {
+  /** 1-based line number for CSV, 1-based array index for JSON */
+  row: number;
+  message: string;
+}
+
+/**
+ * A data file that cannot be used. Row problems are listed in `issues`; a
+ * file unusable as a whole, e.g. empty, says why in `problem`.
+ */
+export class DataFileError extends MarketDataError {
+  constructor(
+    public readonly file: string,
+    public readonly issues: RowIssue[],
+    problem?: string,
+  ) {
+    const preview = issues
+      .slice(0, 5)
+      .map((issue) => `row ${issue.row}: ${issue.message}`)
+      .join("; ");
+    const more = issues.length > 5 ? ` (and ${issues.length - 5} more)` : "";
+    super(
+      problem
+        ? `${file} ${problem}`
+        : `${file} has ${issues.length} malformed row(s): ${preview}${more}`,
+      "csv",
+    );
+    this.name = "DataFileError";
+  }
+}
+
+const DATE_PATTERNS: Record<DateFormat, RegExp> = {
+  "YYYY-MM-DD": /^(?<y>\d{4})-(?<m>\d{1,2})-(?<d>\d{1,2})$/,
+  "DD/MM/YYYY": /^(?<d>\d{1,2})\/(?<m>\d{1,2})\/(?<y>\d{4})$/,
+  "MM/DD/YYYY": /^(?<m>\d{1,2})\/(?<d>\d{1,2})\/(?<y>\d{4})$/,
+  YYYYMMDD: /^(?<y>\d{4})(?<m>\d{2})(?<d>\d{2})$/,
+};
+
+/** Parse a date in the given format into ISO `YYYY-MM-DD`, or null */
+export function parseDate(value: string, format: DateFormat): string | null {
+  const match = DATE_PATTERNS[format].exec(value.trim());
+  if (!match) return null;
+
+  const { y, m, d } = match.groups;
+  const date = new Date(Date.UTC(Number(y), Number(m) - 1, Number(d)));
+  if (
+    date.getUTCFullYear() !== Number(y) ||
+    date.getUTCMonth() !== Number(m) - 1 ||
+    date.getUTCDate() !== Number(d)
+  ) {
+    return null;
+  }
+  return date.toISOString().split("T")[0];
+}
+
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let current = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === delimiter && !quoted) {
+      cells.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current);
+
+  return cells.map((cell) => cell.trim());
+}
+
+function toBar(
+  raw: Record<Column, unknown>,
+  dateFormat: DateFormat,
+): { bar?: StockData; error?: string } {
+  const date = parseDate(String(raw.date ?? ""), dateFormat);
+  if (!date) {
+    return {
+      error: `invalid date '${raw.date ?? ""}' (expected ${dateFormat})`,
+    };
+  }
+
+  const numbers = {} as Record<Exclude<Column, "date">, number>;
+  for (const column of COLUMNS.slice(1) as Exclude<Column, "date">[]) {
+    const value = raw[column];
+    const parsed =
+      typeof value === "number" ? value : Number(String(value ?? "").trim());
+    if (value === undefined || value === "" || !Number.isFinite(parsed)) {
+      return { error: `invalid ${column} '${value ?? ""}'` };
+    }
+    if (parsed < 0) {
+      return { error: `negative ${column} ${parsed}` };
+    }
+    numbers[column] = parsed;
+  }
+
+  if (numbers.high < numbers.low) {
+    return { error: `high ${numbers.high} is below low ${numbers.low}` };
+  }
+
+  return {
+    bar: { date, ...numbers, volume: Math.round(numbers.volume) },
+  };
+}
+
+function collectBars(
+  file: string,
+  rows: { row: number; raw: Record<Column, unknown> }[],
+  dateFormat: DateFormat,
+): StockData[] {
+  const issues: RowIssue[] = [];
+  const seen = new Map<string, number>();
+  const bars: StockData[] = [];
+
+  for (const { row, raw } of rows) {
+    const { bar, error } = toBar(raw, dateFormat);
+    if (error) {
+      issues.push({ row, message: error });
+      continue;
+    }
+    if (seen.has(bar.date)) {
+      issues.push({
+        row,
+        message: `duplicate date ${bar.date} (first seen in row ${seen.get(bar.date)})`,
+      });
+      continue;
+    }
+    seen.set(bar.date, row);
+    bars.push(bar);
+  }
+
+  if (issues.length > 0) {
+    throw new DataFileError(file, issues);
+  }
+
+  return bars.sort((a, b) => a.date.localeCompare(b.date)); // Oldest first
+}
+
+export function parseCsv(
+  contents: string,
+  file: string,
+  options: Omit<LocalFileOptions, "directory"> = {},
+): StockData[] {
+  const delimiter = options.delimiter ?? ",";
+  const lines = contents.split(/\r?\n/);
+  const headerIndex = lines.findIndex((line) => line.trim());
+  if (headerIndex === -1) {
+    throw new DataFileError(file, [], "is empty");
+  }
+
+  const header = splitCsvLine(lines[headerIndex], delimiter).map((h) =>
+    h.toLowerCase(),
+  );
+  const indexes = COLUMNS.map((column) =>
+    header.indexOf((options.columns?.[column] ?? column).toLowerCase()),
+  );
+  const missing = COLUMNS.filter((_, i) => indexes[i] === -1).map(
+    (column) => options.columns?.[column] ?? column,
+  );
+  if (missing.length > 0) {
+    const problem = `is missing the column(s) ${missing.join(", ")}`;
+    throw new DataFileError(
+      file,
+      [{ row: headerIndex + 1, message: problem }],
+      problem,
+    );
+  }
+
+  const rows = lines
+    .map((line, i) => ({ line, row: i + 1 }))
+    .slice(headerIndex + 1)
+    .filter(({ line }) => line.trim())
+    .map(({ line, row }) => {
+      const cells = splitCsvLine(line, delimiter);
+      const raw = {} as Record<Column, unknown>;
+      COLUMNS.forEach((column, i) => {
+        raw[column] = cells[indexes[i]];
+      });
+      return { row, raw };
+    });
+
+  return collectBars(file, rows, options.dateFormat ?? "YYYY-MM-DD");
+}
+
+export function parseJson(
+  contents: string,
+  file: string,
+  options: Omit<LocalFileOptions, "directory"> = {},
+): StockData[] {
+  let records: unknown;
+  try {
+    records = JSON.parse(contents);
+  } catch (error) {
+    throw new DataFileError(file, [], `is not valid JSON: ${error.message}`);
+  }
+  if (!Array.isArray(records)) {
+    throw new DataFileError(file, [], "must contain an array of bars");
+  }
+
+  const rows = records.map((record, i) => {
+    const raw = {} as Record<Column, unknown>;
+    for (const column of COLUMNS) {
+      raw[column] = record?.[options.columns?.[column] ?? column];
+    }
+    return { row: i + 1, raw };
+  });
+
+  return collectBars(file, rows, options.dateFormat ?? "YYYY-MM-DD");
+}
+
+/**
+ * Parse a MARKET_DATA_COLUMNS mapping such as
+ * `date=Date,close=Adj Close,volume=Shares`
+ */
+function parseColumnMapping(value?: string): LocalFileOptions["columns"] {
+  if (!value) return undefined;
+
+  const columns: LocalFileOptions["columns"] = {};
+  for (const pair of value.split(",")) {
+    const [field, source] = pair.split("=").map((part) => part.trim());
+    if (COLUMNS.includes(field as Column) && source) {
+      columns[field as Column] = source;
+    }
+  }
+  return columns;
+}
+
+function getEnvOptions(): LocalFileOptions | null {
+  const directory = process.env.MARKET_DATA_DIR;
+  if (!directory) return null;
+
+  return {
+    directory,
+    columns: parseColumnMapping(process.env.MARKET_DATA_COLUMNS),
+    dateFormat: process.env.MARKET_DATA_DATE_FORMAT as DateFormat | undefined,
+    delimiter: process.env.MARKET_DATA_DELIMITER,
+  };
+}
+
+// Candidates that would resolve outside `directory` are never read
+async function readFirst(directory: string, names: string[]) {
+  const root = path.resolve(directory);
+  for (const name of names) {
+    const file = path.resolve(root, name);
+    if (path.dirname(file) !== root) continue;
+    try {
+      return { name, contents: await fs.readFile(file, "utf8") };
+    } catch {
+      // Try the next candidate
+    }
+  }
+  return null;
+}
+
+/**
+ * Provider serving bars from exported CSV or JSON files. Options default to
+ * the MARKET_DATA_DIR, MARKET_DATA_COLUMNS, MARKET_DATA_DATE_FORMAT and
+ * MARKET_DATA_DELIMITER environment variables.
+ */
+export function createLocalFileProvider(
+  options?: LocalFileOptions,
+): MarketDataProvider {
+  const getOptions = () => options ?? getEnvOptions();
+
+  return {
+    id: "csv",
+    name: "Local CSV/JSON files",
+    synthetic: false,
+
+    isAvailable() {
+      return Boolean(getOptions());
+    },
+
+    async fetchDaily(symbol) {
+      const { directory, ...parseOptions } = getOptions();
+      if (parseOptions.dateFormat && !DATE_PATTERNS[parseOptions.dateFormat]) {
+        throw new MarketDataError(
+          `Unsupported date format '${parseOptions.dateFormat}'`,
+          this.id,
+        );
+      }
+
+      // The symbol becomes a file name, so only a plain ticker will do
+      if (!isSymbol(symbol)) {
+        throw new MarketDataError(`Invalid symbol '${symbol}'`, this.id);
+      }
+
+      const file = await readFirst(directory, [
+        `${symbol}.csv`,
+        `${symbol}.json`,
+        `${symbol.toLowerCase()}.csv`,
+        `${symbol.toLowerCase()}.json`,
+      ]);
+      if (!file) {
+        throw new MarketDataError(`No data file found for ${symbol}`, this.id);
+      }
+
+      return file.name.endsWith(".json")
+        ? parseJson(file.contents, file.name, parseOptions)
+        : parseCsv(file.contents, file.name, parseOptions);
+    },
+  };
+}
+
+export const localFileProvider = createLocalFileProvider();
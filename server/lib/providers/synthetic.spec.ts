@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { generateSyntheticData, MARKET_REGIMES } from "./synthetic";
+
+describe("generateSyntheticData", () => {
+  it("should be deterministic for the same symbol and date", () => {
+    const options = { endDate: "2024-06-28" };
+    expect(generateSyntheticData("AAPL", options)).toEqual(
+      generateSyntheticData("AAPL", options),
+    );
+  });
+
+  it("should differ across symbols and dates", () => {
+    const aapl = generateSyntheticData("AAPL", { endDate: "2024-06-28" });
+    expect(
+      generateSyntheticData("MSFT", { endDate: "2024-06-28" }),
+    ).not.toEqual(aapl);
+    expect(
+      generateSyntheticData("AAPL", { endDate: "2024-06-27" }),
+    ).not.toEqual(aapl);
+  });
+
+  it("should produce consistent weekday bars in every regime", () => {
+    for (const regime of MARKET_REGIMES) {
+      const bars = generateSyntheticData("TEST", {
+        regime,
+        days: 250,
+        endDate: "2024-06-28",
+      });
+
+      expect(bars).toHaveLength(250);
+      expect(bars[bars.length - 1].date).toBe("2024-06-28");
+      for (const bar of bars) {
+        const weekday = new Date(`${bar.date}T00:00:00Z`).getUTCDay();
+        expect(weekday).not.toBe(0);
+        expect(weekday).not.toBe(6);
+        expect(bar.high).toBeGreaterThanOrEqual(Math.max(bar.open, bar.close));
+        expect(bar.low).toBeLessThanOrEqual(Math.min(bar.open, bar.close));
+        expect(bar.volume).toBeGreaterThan(0);
+      }
+    }
+  });
+
+  it("should fall sharply somewhere in the crash regime", () => {
+    const bars = generateSyntheticData("TEST", {
+      regime: "crash",
+      endDate: "2024-06-28",
+    });
+    const peak = Math.max(...bars.slice(0, 65).map((b) => b.close));
+    const trough = Math.min(...bars.slice(65).map((b) => b.close));
+    expect(trough / peak).toBeLessThan(0.9);
+  });
+});
@@ -0,0 +1,172 @@
+import { createRandom } from "../random";
+import { MarketDataProvider, StockData } from "./types";
+
+// Popular stock base prices for more realistic demo data
+const STOCK_BASE_PRICES: Record<string, number> = {
+  AAPL: 175,
+  MSFT: 350,
+  GOOGL: 140,
+  AMZN: 155,
+  TSLA: 250,
+  NVDA: 800,
+  META: 350,
+  NFLX: 450,
+  BABA: 90,
+  V: 270,
+  RELIANCE: 2800,
+  TCS: 3500,
+  HDFCBANK: 1600,
+  INFY: 1800,
+  HINDUNILVR: 2400,
+  ITC: 450,
+  SBIN: 750,
+  BHARTIARTL: 1200,
+  KOTAKBANK: 1800,
+  LT: 3200,
+  ASIANPAINT: 3000,
+  MARUTI: 11000,
+};
+
+export type MarketRegime = "trending" | "mean-reverting" | "crash" | "sideways";
+
+export const MARKET_REGIMES: MarketRegime[] = [
+  "trending",
+  "mean-reverting",
+  "crash",
+  "sideways",
+];
+
+export interface SyntheticOptions {
+  /** Extra seed material, defaults to the end date */
+  seed?: string;
+  /** Defaults to SYNTHETIC_REGIME, else picked from the seed */
+  regime?: MarketRegime;
+  /** Number of trading days to generate */
+  days?: number;
+  /** Last bar date as YYYY-MM-DD, defaults to today (UTC) */
+  endDate?: string;
+}
+
+interface RegimeParams {
+  /** Daily log-return drift */
+  drift: number;
+  /** Long-run daily volatility */
+  volatility: number;
+  /** Pull of log price back to its starting level, 0 = none */
+  reversion: number;
+}
+
+const REGIME_PARAMS: Record<MarketRegime, RegimeParams> = {
+  trending: { drift: 0.0012, volatility: 0.016, reversion: 0 },
+  "mean-reverting": { drift: 0, volatility: 0.018, reversion: 0.08 },
+  crash: { drift: 0.0004, volatility: 0.017, reversion: 0 },
+  sideways: { drift: 0, volatility: 0.01, reversion: 0.03 },
+};
+
+// GARCH(1,1) persistence: large moves are followed by large moves
+const GARCH_ALPHA = 0.08;
+const GARCH_BETA = 0.9;
+
+// Weekday trading dates ending on (or before) endDate, oldest first
+function tradingDates(endDate: string, days: number): string[] {
+  const dates: string[] = [];
+  const cursor = new Date(`${endDate}T00:00:00Z`);
+  while (dates.length < days) {
+    const weekday = cursor.getUTCDay();
+    if (weekday !== 0 && weekday !== 6) {
+      dates.push(cursor.toISOString().split("T")[0]);
+    }
+    cursor.setUTCDate(cursor.getUTCDate() - 1);
+  }
+  return dates.reverse();
+}
+
+/**
+ * Deterministic synthetic daily bars. The same symbol, seed and regime always
+ * produce the same series, so demos, tests and screenshots are repeatable.
+ */
+export function generateSyntheticData(
+  symbol: string,
+  options: SyntheticOptions = {},
+): StockData[] {
+  const endDate = options.endDate ?? new Date().toISOString().split("T")[0];
+  const days = options.days ?? 100;
+  const random = createRandom(`${symbol}:${options.seed ?? endDate}`);
+
+  const envRegime = process.env.SYNTHETIC_REGIME as MarketRegime | undefined;
+  const regime =
+    options.regime ??
+    (MARKET_REGIMES.includes(envRegime) ? envRegime : undefined) ??
+    MARKET_REGIMES[Math.floor(random.next() * MARKET_REGIMES.length)];
+  const params = REGIME_PARAMS[regime];
+
+  const startPrice =
+    (STOCK_BASE_PRICES[symbol] || 150) * (0.9 + random.next() * 0.2);
+  const baseVolume = symbol.startsWith("RELIANCE")
+    ? 5000000
+    : symbol.startsWith("AAPL")
+      ? 50000000
+      : 2000000;
+
+  // Crash regime: a short sell-off starting somewhere in the last third
+  const crashStart = Math.floor(days * (0.65 + random.next() * 0.2));
+  const crashLength = 5 + Math.floor(random.next() * 6);
+
+  const longRunVariance = params.volatility ** 2;
+  const omega = longRunVariance * (1 - GARCH_ALPHA - GARCH_BETA);
+  let variance = longRunVariance;
+  let shock = 0;
+  let logPrice = Math.log(startPrice);
+  let previousClose = startPrice;
+
+  return tradingDates(endDate, days).map((date, i) => {
+    variance = omega + GARCH_ALPHA * shock ** 2 + GARCH_BETA * variance;
+
+    let drift =
+      params.drift - params.reversion * (logPrice - Math.log(startPrice));
+    if (regime === "crash" && i >= crashStart && i < crashStart + crashLength) {
+      drift -= 0.025;
+      variance = Math.max(variance, longRunVariance * 4);
+    }
+
+    shock = Math.sqrt(variance) * random.normal();
+    logPrice += drift + shock;
+
+    const close = Math.max(Math.exp(logPrice), 1);
+    const gap = Math.sqrt(variance) * 0.3 * random.normal();
+    const open = Math.max(previousClose * (1 + gap), 1);
+    const wick = Math.sqrt(variance) * 0.5;
+    const high = Math.max(open, close) * (1 + Math.abs(random.normal()) * wick);
+    const low = Math.min(open, close) * (1 - Math.abs(random.normal()) * wick);
+    previousClose = close;
+
+    // Volume rises with the size of the move, with log-normal noise
+    const move = Math.abs(Math.log(close / open)) / params.volatility;
+    const volume = Math.floor(
+      baseVolume * (1 + 0.5 * move) * Math.exp(0.25 * random.normal()),
+    );
+
+    return {
+      date,
+      open: Number(open.toFixed(2)),
+      high: Number(high.toFixed(2)),
+      low: Number(low.toFixed(2)),
+      close: Number(close.toFixed(2)),
+      volume,
+    };
+  });
+}
+
+export const syntheticProvider: MarketDataProvider = {
+  id: "synthetic",
+  name: "Synthetic demo data",
+  synthetic: true,
+
+  isAvailable() {
+    return true;
+  },
+
+  async fetchDaily(symbol) {
+    return generateSyntheticData(symbol);
+  },
+};
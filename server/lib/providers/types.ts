@@ -0,0 +1,41 @@
+import { StockData } from "@shared/api";
+
+export type { StockData };
+
+/**
+ * A source of daily OHLCV bars. Implementations are registered in
+ * `./index.ts` and selected per request or through MARKET_DATA_PROVIDER.
+ */
+export interface MarketDataProvider {
+  /** Identifier used in requests and env config, e.g. "alphavantage" */
+  id: string;
+  /** Human readable name shown to users */
+  name: string;
+  /** True when the bars are generated rather than observed in a market */
+  synthetic: boolean;
+  /** Fetches the provider accepts at once; batches pick a default if unset */
+  maxConcurrency?: number;
+  /**
+   * Keep fetched bars in the on-disk bar store and only fetch what it is
+   * missing; set by remote sources with quotas or short histories
+   */
+  storeBars?: boolean;
+  /** Whether the provider is configured well enough to be tried */
+  isAvailable(): boolean;
+  /**
+   * Daily bars for a symbol, oldest first. With `since`, only bars from
+   * that date on are needed, though earlier ones may come back too. The bar
+   * on `since` itself is wanted again, as it may have been partial.
+   */
+  fetchDaily(symbol: string, since?: string): Promise<StockData[]>;
+}
+
+export class MarketDataError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: string,
+  ) {
+    super(message);
+    this.name = "MarketDataError";
+  }
+}
@@ -0,0 +1,50 @@
+export interface Random {
+  /** Uniform number in [0, 1) */
+  next(): number;
+  /** Standard normal sample */
+  normal(): number;
+}
+
+// FNV-1a, good enough to spread short seed strings over 32 bits
+function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Seeded pseudo-random generator (mulberry32). The same seed always yields
+ * the same sequence, which keeps synthetic data and simulations repeatable.
+ */
+export function createRandom(seed: string | number): Random {
+  let state = typeof seed === "number" ? seed >>> 0 : hashSeed(seed);
+  let spare: number | null = null;
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  // Box-Muller, caching the second sample of each pair
+  const normal = () => {
+    if (spare !== null) {
+      const value = spare;
+      spare = null;
+      return value;
+    }
+    let u = 0;
+    while (u === 0) u = next();
+    const v = next();
+    const radius = Math.sqrt(-2 * Math.log(u));
+    spare = radius * Math.sin(2 * Math.PI * v);
+    return radius * Math.cos(2 * Math.PI * v);
+  };
+
+  return { next, normal };
+}
@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { generateSyntheticData } from "./providers/synthetic";
+import { detectRegime, regimeKeys } from "./regime";
+
+const series = (regime: "trending" | "sideways", seed: string) =>
+  generateSyntheticData("TEST", {
+    endDate: "2024-06-28",
+    regime,
+    seed,
+    days: 250,
+  });
+
+describe("detectRegime", () => {
+  it("should label a strong rally as trending up", () => {
+    const regime = detectRegime(series("trending", "c"));
+    expect(regime.trend).toBe("trending-up");
+    expect(regime.adx).toBeGreaterThanOrEqual(25);
+    expect(regime.slope).toBeGreaterThan(0);
+  });
+
+  it("should label a flat market as ranging", () => {
+    const regime = detectRegime(series("sideways", "a"));
+    expect(regime.trend).toBe("ranging");
+    expect(regime.volatilityPercentile).toBeGreaterThan(0);
+    expect(regime.volatilityPercentile).toBeLessThanOrEqual(100);
+  });
+
+  it("should rank volatility as normal without enough history", () => {
+    const regime = detectRegime(series("trending", "c").slice(0, 25));
+    expect(regime).toMatchObject({
+      volatility: "normal",
+      volatilityPercentile: 50,
+    });
+  });
+});
+
+describe("regimeKeys", () => {
+  it("should list the trend setting before the volatility one", () => {
+    expect(
+      regimeKeys({
+        trend: "trending-down",
+        volatility: "high",
+        adx: 30,
+        slope: -3,
+        volatilityPercentile: 90,
+      }),
+    ).toEqual(["trending", "highVolatility"]);
+  });
+});
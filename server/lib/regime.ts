@@ -0,0 +1,101 @@
+import { RegimeReport, TrendRegime, VolatilityRegime } from "@shared/api";
+import { adx as adxSeries } from "../../shared/indicators";
+import { HORIZONS, IndicatorWindows } from "./horizons";
+import { StockData } from "./providers";
+import { RegimeKey } from "./strategies";
+
+// ADX at or above this marks a trend on its own
+export const TRENDING_ADX = 25;
+// A slow SMA moving this much (in percent) marks a trend even at a low ADX
+export const TRENDING_SLOPE = 2;
+
+// Volatility percentiles at or beyond these are "high" and "low"
+const HIGH_VOLATILITY_PERCENTILE = 80;
+const LOW_VOLATILITY_PERCENTILE = 20;
+// Fewer past volatility readings than this rank as "normal"
+const MIN_VOLATILITY_READINGS = 10;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+function sma(values: number[], end: number, period: number) {
+  let sum = 0;
+  for (let i = end - period; i < end; i++) sum += values[i];
+  return sum / period;
+}
+
+// Percent change in the slow SMA over the last `span` bars, 0 without enough
+// history
+function smaSlope(closes: number[], period: number, span: number) {
+  if (closes.length < period + span) return 0;
+  const now = sma(closes, closes.length, period);
+  const before = sma(closes, closes.length - span, period);
+  return (now / before - 1) * 100;
+}
+
+// Standard deviation of daily log returns over each trailing window
+function realizedVolatility(closes: number[], window: number) {
+  const returns = closes
+    .slice(1)
+    .map((close, i) => Math.log(close / closes[i]));
+  const readings: number[] = [];
+  for (let end = window; end <= returns.length; end++) {
+    const recent = returns.slice(end - window, end);
+    const mean = recent.reduce((sum, r) => sum + r, 0) / window;
+    const variance =
+      recent.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (window - 1);
+    readings.push(Math.sqrt(variance));
+  }
+  return readings;
+}
+
+/**
+ * Label the symbol's regime at the last bar. It is trending when ADX is
+ * strong or the slow SMA is clearly sloping, in the slope's direction, and
+ * ranging otherwise. Volatility is ranked against the symbol's own history,
+ * so a volatile stock in a typical week reads as "normal".
+ */
+export function detectRegime(
+  stockData: StockData[],
+  windows: IndicatorWindows = HORIZONS.tomorrow.windows,
+): RegimeReport {
+  const closes = stockData.map((d) => d.close);
+
+  const adxValues = adxSeries(stockData, windows.adx).adx;
+  const adx = adxValues[adxValues.length - 1] ?? 0;
+  const slope = smaSlope(closes, windows.slowSma, windows.fastSma);
+  let trend: TrendRegime = "ranging";
+  if (adx >= TRENDING_ADX || Math.abs(slope) >= TRENDING_SLOPE) {
+    trend = slope >= 0 ? "trending-up" : "trending-down";
+  }
+
+  const readings = realizedVolatility(closes, windows.bollinger);
+  let volatilityPercentile = 50;
+  if (readings.length >= MIN_VOLATILITY_READINGS) {
+    const current = readings[readings.length - 1];
+    const below = readings.filter((reading) => reading <= current).length;
+    volatilityPercentile = (below / readings.length) * 100;
+  }
+  let volatility: VolatilityRegime = "normal";
+  if (volatilityPercentile >= HIGH_VOLATILITY_PERCENTILE) volatility = "high";
+  else if (volatilityPercentile <= LOW_VOLATILITY_PERCENTILE) {
+    volatility = "low";
+  }
+
+  return {
+    trend,
+    volatility,
+    adx: round(adx),
+    slope: round(slope),
+    volatilityPercentile: round(volatilityPercentile),
+  };
+}
+
+/** The strategy regime settings that apply, trend first */
+export function regimeKeys(regime: RegimeReport): RegimeKey[] {
+  const keys: RegimeKey[] = [
+    regime.trend === "ranging" ? "ranging" : "trending",
+  ];
+  if (regime.volatility === "high") keys.push("highVolatility");
+  if (regime.volatility === "low") keys.push("lowVolatility");
+  return keys;
+}
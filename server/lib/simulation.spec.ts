@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { generateSyntheticData } from "./providers/synthetic";
+import { runSimulation, SimulationRangeError } from "./simulation";
+
+const bars = generateSyntheticData("TEST", { endDate: "2024-06-28" });
+const start = bars[bars.length - 1].close;
+
+describe("runSimulation", () => {
+  it("should be repeatable for the same seed", () => {
+    const options = { method: "bootstrap" as const, days: 10, paths: 500 };
+    expect(runSimulation("TEST", bars, options)).toEqual(
+      runSimulation("TEST", bars, options),
+    );
+  });
+
+  it("should order the terminal percentiles and fill the histogram", () => {
+    const result = runSimulation("TEST", bars, {
+      method: "gbm",
+      days: 21,
+      paths: 2000,
+    });
+    const { percentiles, median, histogram } = result.terminal;
+
+    expect(percentiles.p5).toBeLessThan(percentiles.p25);
+    expect(percentiles.p25).toBeLessThanOrEqual(median);
+    expect(median).toBeLessThanOrEqual(percentiles.p75);
+    expect(percentiles.p75).toBeLessThan(percentiles.p95);
+    expect(histogram.reduce((sum, bin) => sum + bin.count, 0)).toBe(2000);
+    expect(result.drawdown.expected).toBeGreaterThan(0);
+    expect(result.drawdown.p95).toBeGreaterThanOrEqual(result.drawdown.median);
+  });
+
+  it("should report level touches in both directions", () => {
+    const result = runSimulation("TEST", bars, {
+      method: "bootstrap",
+      days: 21,
+      paths: 2000,
+      target: start * 1.02,
+      stop: start * 0.5,
+    });
+
+    // A nearby target is reached far more often than a distant stop
+    expect(result.target.probability).toBeGreaterThan(result.stop.probability);
+    expect(result.target.medianDays).toBeGreaterThan(0);
+    expect(result.targetFirst).toBeLessThanOrEqual(result.target.probability);
+  });
+
+  it("should reject too short a history", () => {
+    expect(() =>
+      runSimulation("TEST", bars.slice(0, 10), {
+        method: "bootstrap",
+        days: 5,
+        paths: 100,
+      }),
+    ).toThrow(SimulationRangeError);
+  });
+});
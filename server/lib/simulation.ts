@@ -0,0 +1,211 @@
+import {
+  SimulationLevel,
+  SimulationMethod,
+  SimulationResponse,
+} from "@shared/api";
+import { StockData } from "./providers";
+import { createRandom, Random } from "./random";
+
+// Fewer past returns than this say too little about the distribution to
+// sample from
+const MIN_RETURNS = 30;
+
+const HISTOGRAM_BINS = 20;
+
+export interface SimulationOptions {
+  method: SimulationMethod;
+  days: number;
+  paths: number;
+  target?: number;
+  stop?: number;
+  /** Defaults to the symbol and the last bar's date */
+  seed?: string | number;
+}
+
+export const DEFAULT_SIMULATION_OPTIONS: SimulationOptions = {
+  method: "bootstrap",
+  days: 21,
+  paths: 5000,
+};
+
+export class SimulationRangeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SimulationRangeError";
+  }
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Linear interpolation between closest ranks, on sorted values
+function percentile(sorted: ArrayLike<number>, p: number) {
+  const rank = (sorted.length - 1) * p;
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+function mean(values: ArrayLike<number>) {
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) sum += values[i];
+  return sum / values.length;
+}
+
+function dailyLogReturns(stockData: StockData[]) {
+  const returns: number[] = [];
+  for (let i = 1; i < stockData.length; i++) {
+    returns.push(Math.log(stockData[i].close / stockData[i - 1].close));
+  }
+  return returns;
+}
+
+// Draws one day's log return for the chosen method
+function returnSampler(
+  method: SimulationMethod,
+  returns: number[],
+  random: Random,
+): () => number {
+  if (method === "bootstrap") {
+    return () => returns[Math.floor(random.next() * returns.length)];
+  }
+  const drift = mean(returns);
+  const variance =
+    returns.reduce((sum, r) => sum + (r - drift) ** 2, 0) /
+    (returns.length - 1);
+  const volatility = Math.sqrt(variance);
+  return () => drift + volatility * random.normal();
+}
+
+function histogram(sorted: Float64Array) {
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  const width = (max - min) / HISTOGRAM_BINS || 1;
+  const counts = new Array<number>(HISTOGRAM_BINS).fill(0);
+  for (const value of sorted) {
+    counts[Math.min(HISTOGRAM_BINS - 1, Math.floor((value - min) / width))]++;
+  }
+  return counts.map((count, bin) => ({
+    from: round(min + bin * width),
+    to: round(min + (bin + 1) * width),
+    count,
+  }));
+}
+
+function summarizeLevel(
+  price: number,
+  hitDays: Int32Array,
+  paths: number,
+): SimulationLevel {
+  const days = Array.from(hitDays)
+    .filter((day) => day > 0)
+    .sort((a, b) => a - b);
+  return {
+    price,
+    probability: round((days.length / paths) * 100),
+    medianDays: days.length > 0 ? percentile(days, 0.5) : null,
+  };
+}
+
+/**
+ * Monte Carlo price paths from the last close. "bootstrap" resamples past
+ * daily log returns, keeping their fat tails; "gbm" draws normal returns
+ * with the historical drift and volatility. A level above the start price
+ * counts as touched when a close reaches or passes it from below, one under
+ * the start price when a close falls to it. Paths only see closes, so
+ * intraday touches are missed.
+ */
+export function runSimulation(
+  symbol: string,
+  stockData: StockData[],
+  options: SimulationOptions,
+): Omit<SimulationResponse, "dataSource"> {
+  const { method, days, paths, target, stop } = options;
+  const returns = dailyLogReturns(stockData);
+  if (returns.length < MIN_RETURNS) {
+    throw new SimulationRangeError(
+      `Simulation needs at least ${MIN_RETURNS + 1} bars of history, got ${stockData.length}`,
+    );
+  }
+
+  const last = stockData[stockData.length - 1];
+  const start = last.close;
+  const random = createRandom(options.seed ?? `${symbol}:${last.date}`);
+  const sample = returnSampler(method, returns, random);
+
+  const terminals = new Float64Array(paths);
+  const drawdowns = new Float64Array(paths);
+  // Day of the first touch on each path, 0 when never touched
+  const targetDays = new Int32Array(paths);
+  const stopDays = new Int32Array(paths);
+  const touches = (level: number, price: number) =>
+    level >= start ? price >= level : price <= level;
+
+  for (let path = 0; path < paths; path++) {
+    let price = start;
+    let peak = start;
+    let drawdown = 0;
+    for (let day = 1; day <= days; day++) {
+      price *= Math.exp(sample());
+      peak = Math.max(peak, price);
+      drawdown = Math.max(drawdown, 1 - price / peak);
+      if (target !== undefined && !targetDays[path] && touches(target, price)) {
+        targetDays[path] = day;
+      }
+      if (stop !== undefined && !stopDays[path] && touches(stop, price)) {
+        stopDays[path] = day;
+      }
+    }
+    terminals[path] = price;
+    drawdowns[path] = drawdown * 100;
+  }
+
+  const sortedTerminals = terminals.slice().sort();
+  const sortedDrawdowns = drawdowns.slice().sort();
+  const price = (p: number) => round(percentile(sortedTerminals, p));
+
+  const result: Omit<SimulationResponse, "dataSource"> = {
+    symbol,
+    method,
+    days,
+    paths,
+    startPrice: round(start),
+    sampleSize: returns.length,
+    terminal: {
+      mean: round(mean(terminals)),
+      median: price(0.5),
+      percentiles: {
+        p5: price(0.05),
+        p25: price(0.25),
+        p75: price(0.75),
+        p95: price(0.95),
+      },
+      probabilityUp: round(
+        (terminals.filter((value) => value > start).length / paths) * 100,
+      ),
+      histogram: histogram(sortedTerminals),
+    },
+    drawdown: {
+      expected: round(mean(drawdowns)),
+      median: round(percentile(sortedDrawdowns, 0.5)),
+      p95: round(percentile(sortedDrawdowns, 0.95)),
+    },
+  };
+
+  if (target !== undefined) {
+    result.target = summarizeLevel(target, targetDays, paths);
+  }
+  if (stop !== undefined) {
+    result.stop = summarizeLevel(stop, stopDays, paths);
+  }
+  if (target !== undefined && stop !== undefined) {
+    // A path that closes through both on the same day counts as stopped out
+    let first = 0;
+    for (let path = 0; path < paths; path++) {
+      const hit = targetDays[path];
+      if (hit && (!stopDays[path] || hit < stopDays[path])) first++;
+    }
+    result.targetFirst = round((first / paths) * 100);
+  }
+
+  return result;
+}
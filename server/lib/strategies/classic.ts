@@ -0,0 +1,172 @@
+import { Rule, RuleStrategy } from "./types";
+
+const RSI_LEVEL_RULES: Rule[] = [
+  {
+    id: "rsi-oversold",
+    description: "RSI below 30: strong buy signal",
+    group: "rsi-level",
+    when: [{ feature: "rsi", lt: 30 }],
+    score: 2,
+  },
+  {
+    id: "rsi-overbought",
+    description: "RSI above 70: strong sell signal",
+    group: "rsi-level",
+    when: [{ feature: "rsi", gt: 70 }],
+    score: -2,
+  },
+  {
+    id: "rsi-weak",
+    description: "RSI below 50: weak buy signal",
+    group: "rsi-level",
+    when: [{ feature: "rsi", lt: 50 }],
+    score: 1,
+  },
+  {
+    id: "rsi-strong",
+    description: "RSI at or above 50: weak sell signal",
+    group: "rsi-level",
+    when: [{ feature: "rsi", gte: 50 }],
+    score: -1,
+  },
+];
+
+const TREND_AND_VOLUME_RULES: Rule[] = [
+  {
+    id: "trend-bullish",
+    description: "SMA10 above SMA50",
+    group: "trend",
+    when: [{ feature: "trend", equals: "BULLISH" }],
+    score: 1,
+  },
+  {
+    id: "trend-bearish",
+    description: "SMA10 below SMA50",
+    group: "trend",
+    when: [{ feature: "trend", equals: "BEARISH" }],
+    score: -1,
+  },
+  {
+    id: "volume-confirms-uptrend",
+    description: "Rising volume in a bullish trend",
+    group: "volume",
+    when: [
+      { feature: "volume_trend", equals: "INCREASING" },
+      { feature: "trend", equals: "BULLISH" },
+    ],
+    score: 1,
+  },
+  {
+    id: "volume-confirms-downtrend",
+    description: "Rising volume in a bearish trend",
+    group: "volume",
+    when: [
+      { feature: "volume_trend", equals: "INCREASING" },
+      { feature: "trend", equals: "BEARISH" },
+    ],
+    score: -1,
+  },
+];
+
+const RSI_EVENT_RULES: Rule[] = [
+  {
+    id: "rsi-crossover-bullish",
+    description: "RSI rose back above 30",
+    group: "rsi-crossover",
+    when: [{ feature: "rsi_crossover", equals: "BULLISH" }],
+    score: 1,
+  },
+  {
+    id: "rsi-crossover-bearish",
+    description: "RSI fell back below 70",
+    group: "rsi-crossover",
+    when: [{ feature: "rsi_crossover", equals: "BEARISH" }],
+    score: -1,
+  },
+  {
+    id: "rsi-divergence-bullish",
+    description: "Lower price low with a higher RSI low",
+    group: "rsi-divergence",
+    when: [{ feature: "rsi_divergence", equals: "BULLISH" }],
+    score: 1,
+  },
+  {
+    id: "rsi-divergence-bearish",
+    description: "Higher price high with a lower RSI high",
+    group: "rsi-divergence",
+    when: [{ feature: "rsi_divergence", equals: "BEARISH" }],
+    score: -1,
+  },
+];
+
+const BASE = {
+  name: "classic",
+  adjustments: [
+    {
+      id: "high-volatility",
+      description: "Price above the upper Bollinger Band",
+      when: [{ feature: "volatility", equals: "HIGH" }],
+      scoreMultiplier: 0.8,
+    },
+  ],
+  scoreThreshold: 1,
+  timeframes: {
+    // Today's predictions are less reliable due to short timeframe
+    today: {
+      scoreMultiplier: 0.9,
+      confidenceMultiplier: 0.8,
+      confidenceThreshold: 0.5,
+    },
+    tomorrow: {
+      scoreMultiplier: 1,
+      confidenceMultiplier: 1,
+      confidenceThreshold: 0.6,
+    },
+  },
+};
+
+/** The original hard-coded rules, with the simple-average RSI */
+export const classicV1: RuleStrategy = {
+  ...BASE,
+  version: 1,
+  description: "RSI level, SMA trend and volume confirmation",
+  rsiMethod: "simple",
+  rules: [...RSI_LEVEL_RULES, ...TREND_AND_VOLUME_RULES],
+};
+
+/** Wilder RSI, plus RSI crossovers and divergences */
+export const classicV2: RuleStrategy = {
+  ...BASE,
+  version: 2,
+  description:
+    "RSI level, crossovers and divergences, SMA trend and volume confirmation",
+  rsiMethod: "wilder",
+  rules: [...RSI_LEVEL_RULES, ...RSI_EVENT_RULES, ...TREND_AND_VOLUME_RULES],
+};
+
+/**
+ * Version 2, adapted to the market regime: trend rules count for more in a
+ * trending market and RSI mean reversion for more in a ranging one, and
+ * high volatility demands a stronger, surer signal
+ */
+export const classicV3: RuleStrategy = {
+  ...classicV2,
+  version: 3,
+  description:
+    "RSI level, crossovers and divergences, SMA trend and volume confirmation, weighted by market regime",
+  regimes: {
+    trending: {
+      weights: { trend: 1.5, volume: 1.25, "rsi-level": 0.5 },
+    },
+    ranging: {
+      weights: { trend: 0.5, "rsi-level": 1.5, "rsi-crossover": 1.25 },
+    },
+    highVolatility: {
+      scoreThresholdMultiplier: 1.5,
+      confidenceThresholdOffset: 0.1,
+    },
+    lowVolatility: {
+      confidenceThresholdOffset: -0.05,
+    },
+  },
+};
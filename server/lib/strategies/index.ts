@@ -0,0 +1,107 @@
+import { readdirSync, readFileSync } from "fs";
+import path from "path";
+import { Timeframe } from "@shared/api";
+import { classicV1, classicV2, classicV3 } from "./classic";
+import { momentumV1 } from "./momentum";
+import {
+  modelStrategySchema,
+  ruleStrategySchema,
+  strategySchema,
+  StrategyConfig,
+} from "./types";
+
+export * from "./types";
+
+export const DEFAULT_STRATEGY = "classic";
+
+const strategies = new Map<string, StrategyConfig>();
+let loadedFromDir = false;
+
+export function strategyId(strategy: StrategyConfig) {
+  return `${strategy.name}@${strategy.version}`;
+}
+
+/** Whether a strategy can predict at the given horizon */
+export function supportsTimeframe(
+  strategy: StrategyConfig,
+  timeframe: Timeframe,
+) {
+  return strategy.kind !== "model" || Boolean(strategy.timeframes[timeframe]);
+}
+
+export function registerStrategy(strategy: StrategyConfig) {
+  strategies.set(strategyId(strategy), strategySchema.parse(strategy));
+}
+
+/** Where `pnpm train` saves models, relative to the working directory */
+export const DEFAULT_MODELS_DIR = "models";
+
+/**
+ * Register every `*.json` strategy in a directory. Invalid files are logged
+ * with the failing fields and skipped.
+ */
+function loadStrategiesFromDir(directory: string, required: boolean) {
+  let files: string[];
+  try {
+    files = readdirSync(directory).filter((file) => file.endsWith(".json"));
+  } catch (error) {
+    // Nothing has been trained yet
+    if (!required && error.code === "ENOENT") return;
+    console.error(`Cannot read strategy directory ${directory}:`, error);
+    return;
+  }
+
+  for (const file of files) {
+    try {
+      const raw = JSON.parse(readFileSync(path.join(directory, file), "utf8"));
+      // Parse against one schema so the issues name the failing fields
+      const schema =
+        raw?.kind === "model" ? modelStrategySchema : ruleStrategySchema;
+      const result = schema.safeParse(raw);
+      if (!result.success) {
+        const issues = result.error.issues.map(
+          (issue) => `${issue.path.join(".")}: ${issue.message}`,
+        );
+        console.error(`Invalid strategy ${file}: ${issues.join("; ")}`);
+        continue;
+      }
+      registerStrategy(result.data);
+    } catch (error) {
+      console.error(`Cannot load strategy ${file}:`, error);
+    }
+  }
+}
+
+/** Load hand-written strategies from STRATEGIES_DIR and trained models */
+function loadStrategies() {
+  loadedFromDir = true;
+  if (process.env.STRATEGIES_DIR) {
+    loadStrategiesFromDir(process.env.STRATEGIES_DIR, true);
+  }
+  loadStrategiesFromDir(process.env.MODELS_DIR ?? DEFAULT_MODELS_DIR, false);
+}
+
+export function listStrategies(): StrategyConfig[] {
+  if (!loadedFromDir) loadStrategies();
+  return Array.from(strategies.values());
+}
+
+/**
+ * Look up a strategy by `name@version`, or by `name` for its latest version.
+ * Defaults to the latest version of DEFAULT_STRATEGY.
+ */
+export function getStrategy(id: string = DEFAULT_STRATEGY) {
+  const [name, version] = id.toLowerCase().split("@");
+  const matching = listStrategies()
+    .filter((strategy) => strategy.name === name)
+    .sort((a, b) => b.version - a.version);
+
+  return version === undefined
+    ? matching[0]
+    : matching.find((strategy) => strategy.version === Number(version));
+}
+
+registerStrategy(classicV1);
+registerStrategy(classicV2);
+registerStrategy(classicV3);
+registerStrategy(momentumV1);
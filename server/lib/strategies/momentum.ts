@@ -0,0 +1,100 @@
+import { RuleStrategy } from "./types";
+
+/** Trend-following on MACD and ADX, fading only extreme RSI readings */
+export const momentumV1: RuleStrategy = {
+  name: "momentum",
+  version: 1,
+  description: "MACD direction and ADX trend strength, with RSI extremes",
+  rsiMethod: "wilder",
+  rules: [
+    {
+      id: "macd-positive",
+      description: "MACD histogram above zero",
+      group: "macd",
+      when: [{ feature: "macd_histogram", gt: 0 }],
+      score: 1,
+    },
+    {
+      id: "macd-negative",
+      description: "MACD histogram below zero",
+      group: "macd",
+      when: [{ feature: "macd_histogram", lt: 0 }],
+      score: -1,
+    },
+    {
+      id: "strong-uptrend",
+      description: "ADX of 25 or more in a bullish trend",
+      group: "trend",
+      when: [
+        { feature: "adx", gte: 25 },
+        { feature: "trend", equals: "BULLISH" },
+      ],
+      score: 2,
+    },
+    {
+      id: "strong-downtrend",
+      description: "ADX of 25 or more in a bearish trend",
+      group: "trend",
+      when: [
+        { feature: "adx", gte: 25 },
+        { feature: "trend", equals: "BEARISH" },
+      ],
+      score: -2,
+    },
+    {
+      id: "weak-uptrend",
+      description: "SMA10 above SMA50 without a strong ADX",
+      group: "trend",
+      when: [{ feature: "trend", equals: "BULLISH" }],
+      score: 1,
+    },
+    {
+      id: "weak-downtrend",
+      description: "SMA10 below SMA50 without a strong ADX",
+      group: "trend",
+      when: [{ feature: "trend", equals: "BEARISH" }],
+      score: -1,
+    },
+    {
+      id: "rsi-exhausted-high",
+      description: "RSI above 80: the move may be exhausted",
+      group: "rsi-extreme",
+      when: [{ feature: "rsi", gt: 80 }],
+      score: -1,
+    },
+    {
+      id: "rsi-exhausted-low",
+      description: "RSI below 20: the move may be exhausted",
+      group: "rsi-extreme",
+      when: [{ feature: "rsi", lt: 20 }],
+      score: 1,
+    },
+  ],
+  adjustments: [
+    {
+      id: "high-volatility",
+      description: "Price above the upper Bollinger Band",
+      when: [{ feature: "volatility", equals: "HIGH" }],
+      scoreMultiplier: 0.8,
+    },
+    {
+      id: "choppy-market",
+      description: "ADX below 20: no clear trend to follow",
+      when: [{ feature: "adx", lt: 20 }],
+      scoreMultiplier: 0.7,
+    },
+  ],
+  scoreThreshold: 1,
+  timeframes: {
+    today: {
+      scoreMultiplier: 0.9,
+      confidenceMultiplier: 0.8,
+      confidenceThreshold: 0.5,
+    },
+    tomorrow: {
+      scoreMultiplier: 1,
+      confidenceMultiplier: 1,
+      confidenceThreshold: 0.6,
+    },
+  },
+};
@@ -0,0 +1,172 @@
+import { z } from "zod";
+
+const timeframeSchema = z.object({
+  /** Applied to the score after rules and adjustments */
+  scoreMultiplier: z.number(),
+  /** Applied to the confidence after it is derived from the score */
+  confidenceMultiplier: z.number(),
+  /** Minimum confidence (0-1) for a BUY or SELL */
+  confidenceThreshold: z.number().min(0).max(1),
+});
+
+/**
+ * A test against one StockFeatures field. String features are compared with
+ * `equals`, numeric ones with any combination of the bounds.
+ */
+export const conditionSchema = z
+  .object({
+    feature: z.string(),
+    equals: z.string().optional(),
+    lt: z.number().optional(),
+    lte: z.number().optional(),
+    gt: z.number().optional(),
+    gte: z.number().optional(),
+  })
+  .strict();
+
+export const ruleSchema = z
+  .object({
+    id: z.string(),
+    description: z.string(),
+    /** Rules sharing a group are exclusive: only the first match fires */
+    group: z.string().optional(),
+    /** Every condition must hold for the rule to fire */
+    when: z.array(conditionSchema).min(1),
+    /** Points added to the score when the rule fires */
+    score: z.number(),
+  })
+  .strict();
+
+export const adjustmentSchema = z
+  .object({
+    id: z.string(),
+    description: z.string(),
+    when: z.array(conditionSchema).min(1),
+    /** Multiplies the score before confidence is derived */
+    scoreMultiplier: z.number(),
+  })
+  .strict();
+
+/**
+ * How a rule strategy adapts to a market regime. Settings for the trend
+ * regime apply first, then those for the volatility regime; multipliers
+ * compound and offsets add up.
+ */
+export const regimeSettingsSchema = z
+  .object({
+    /** Multiplies the score of rules with this id, or else in this group */
+    weights: z.record(z.string(), z.number().nonnegative()).optional(),
+    /** Multiplies the strategy's score threshold */
+    scoreThresholdMultiplier: z.number().positive().optional(),
+    /** Added to the timeframe's confidence threshold (0-1) */
+    confidenceThresholdOffset: z.number().min(-1).max(1).optional(),
+  })
+  .strict();
+
+export const regimeKeySchema = z.enum([
+  "trending",
+  "ranging",
+  "highVolatility",
+  "lowVolatility",
+]);
+
+const identitySchema = {
+  name: z.string().regex(/^[a-z0-9-]+$/, "use lowercase letters, digits, -"),
+  version: z.number().int().positive(),
+  description: z.string(),
+  rsiMethod: z.enum(["wilder", "simple"]),
+};
+
+export const ruleStrategySchema = z
+  .object({
+    kind: z.literal("rules").optional(),
+    ...identitySchema,
+    rules: z.array(ruleSchema).min(1),
+    adjustments: z.array(adjustmentSchema),
+    /** The score must exceed this (or its negative) for BUY (or SELL) */
+    scoreThreshold: z.number().nonnegative(),
+    /** Longer horizons fall back to their defaults in HORIZONS */
+    timeframes: z.object({
+      today: timeframeSchema,
+      tomorrow: timeframeSchema,
+      "1w": timeframeSchema.optional(),
+      "2w": timeframeSchema.optional(),
+      "1m": timeframeSchema.optional(),
+    }),
+    /** Without this, the strategy scores the same in every regime */
+    regimes: z
+      .object({
+        trending: regimeSettingsSchema.optional(),
+        ranging: regimeSettingsSchema.optional(),
+        highVolatility: regimeSettingsSchema.optional(),
+        lowVolatility: regimeSettingsSchema.optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+/**
+ * A multinomial logistic regression over standardized features. Rows of
+ * `weights` line up with `classes`, columns with `features`.
+ */
+export const classifierSchema = z
+  .object({
+    features: z.array(z.string()).min(1),
+    means: z.array(z.number()),
+    stds: z.array(z.number().positive()),
+    classes: z.array(z.enum(["BUY", "SELL", "HOLD"])).length(3),
+    weights: z.array(z.array(z.number())).length(3),
+    biases: z.array(z.number()).length(3),
+    /** Softmax temperature fitted on the validation split */
+    temperature: z.number().positive(),
+    validation: z.object({
+      samples: z.number().int().nonnegative(),
+      /** Share of validation samples whose most likely class was right */
+      accuracy: z.number(),
+      logLoss: z.number(),
+    }),
+  })
+  .strict()
+  .refine(
+    (classifier) =>
+      [classifier.means, classifier.stds, ...classifier.weights].every(
+        (row) => row.length === classifier.features.length,
+      ),
+    { message: "means, stds and weight rows must match features" },
+  );
+
+export const modelStrategySchema = z
+  .object({
+    kind: z.literal("model"),
+    ...identitySchema,
+    trainedAt: z.string(),
+    symbols: z.array(z.string()),
+    /** Date of the last bar trained on, by symbol; older models lack it */
+    trainedThrough: z.record(z.string(), z.string()).optional(),
+    /** Models trained before longer horizons existed only serve the first two */
+    timeframes: z.object({
+      today: classifierSchema,
+      tomorrow: classifierSchema,
+      "1w": classifierSchema.optional(),
+      "2w": classifierSchema.optional(),
+      "1m": classifierSchema.optional(),
+    }),
+  })
+  .strict();
+
+/** Strategies are either declarative rules or a trained classifier */
+export const strategySchema = z.union([
+  ruleStrategySchema,
+  modelStrategySchema,
+]);
+
+export type Condition = z.infer<typeof conditionSchema>;
+export type Rule = z.infer<typeof ruleSchema>;
+export type Adjustment = z.infer<typeof adjustmentSchema>;
+export type RegimeSettings = z.infer<typeof regimeSettingsSchema>;
+export type RegimeKey = z.infer<typeof regimeKeySchema>;
+export type RuleStrategy = z.infer<typeof ruleStrategySchema>;
+export type Classifier = z.infer<typeof classifierSchema>;
+export type ModelStrategy = z.infer<typeof modelStrategySchema>;
+export type StrategyConfig = RuleStrategy | ModelStrategy;
@@ -0,0 +1,148 @@
+import { describe, it, expect, vi } from "vitest";
+import { Response } from "express";
+import { z } from "zod";
+import { backtestRequestSchema, historyQuerySchema } from "../../shared/api";
+import { DataFileError } from "./providers";
+import {
+  parseRequest,
+  sendMarketDataError,
+  sendValidated,
+  unknownProvider,
+} from "./validation";
+
+function fakeResponse() {
+  const res = {
+    statusCode: 200,
+    body: undefined as unknown,
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    json(body: unknown) {
+      res.body = body;
+      return res;
+    },
+  };
+  return res;
+}
+
+describe("parseRequest", () => {
+  it("should answer 400 with every failing field", () => {
+    const res = fakeResponse();
+    const parsed = parseRequest(
+      backtestRequestSchema,
+      { symbol: "", from: "2024-1-1", initialCapital: -5 },
+      res as unknown as Response,
+    );
+
+    expect(parsed).toBeUndefined();
+    expect(res.statusCode).toBe(400);
+    const { issues } = res.body as { issues: { field: string }[] };
+    expect(issues.map((issue) => issue.field)).toEqual([
+      "symbol",
+      "from",
+      "initialCapital",
+    ]);
+  });
+
+  it("should reject symbols that are not tickers", () => {
+    const res = fakeResponse();
+    const parsed = parseRequest(
+      backtestRequestSchema,
+      { symbol: "../secret" },
+      res as unknown as Response,
+    );
+
+    expect(parsed).toBeUndefined();
+    expect(res.body).toMatchObject({
+      issues: [
+        { field: "symbol", message: "must be a ticker such as AAPL or BRK.B" },
+      ],
+    });
+  });
+
+  it("should report cross-field rules on the field they name", () => {
+    const res = fakeResponse();
+    parseRequest(
+      historyQuerySchema,
+      { from: "2024-03-01", to: "2024-02-01" },
+      res as unknown as Response,
+    );
+
+    expect(res.body).toEqual({
+      error: "from: must not be after 'to'",
+      issues: [{ field: "from", message: "must not be after 'to'" }],
+    });
+  });
+
+  it("should return the parsed input when valid", () => {
+    const res = fakeResponse();
+    const parsed = parseRequest(
+      historyQuerySchema,
+      { interval: "1w" },
+      res as unknown as Response,
+    );
+
+    expect(parsed).toEqual({ interval: "1w" });
+    expect(res.body).toBeUndefined();
+  });
+});
+
+describe("sendValidated", () => {
+  const schema = z.object({ price: z.number() });
+
+  it("should send a body that matches its contract", () => {
+    const res = fakeResponse();
+    sendValidated(res as unknown as Response, schema, { price: 1 });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toEqual({ price: 1 });
+  });
+
+  it("should answer 500 rather than ship a mismatched body", () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const res = fakeResponse();
+    sendValidated(res as unknown as Response, schema, {
+      price: "1" as unknown as number,
+    });
+
+    expect(res.statusCode).toBe(500);
+    expect(error).toHaveBeenCalledWith(
+      "Response does not match its contract: price: Expected number, received string",
+    );
+    error.mockRestore();
+  });
+});
+
+describe("sendMarketDataError", () => {
+  it("should answer 422 with the rows of a malformed data file", () => {
+    const res = fakeResponse();
+    const issues = [{ row: 3, message: "close is not a number" }];
+    sendMarketDataError(
+      res as unknown as Response,
+      new DataFileError("AAPL.csv", issues),
+    );
+
+    expect(res.statusCode).toBe(422);
+    expect(res.body).toMatchObject({ file: "AAPL.csv", issues });
+  });
+
+  it("should leave other errors to the caller", () => {
+    const res = fakeResponse();
+    expect(
+      sendMarketDataError(res as unknown as Response, new Error("boom")),
+    ).toBeUndefined();
+    expect(res.body).toBeUndefined();
+  });
+});
+
+describe("unknownProvider", () => {
+  it("should list the registered providers", () => {
+    expect(unknownProvider("synthetic")).toBeNull();
+    expect(unknownProvider(undefined)).toBeNull();
+    expect(unknownProvider("nope")).toMatchObject({
+      field: "provider",
+      message: expect.stringContaining("'synthetic'"),
+    });
+  });
+});
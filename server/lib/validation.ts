@@ -0,0 +1,120 @@
+import { Request, Response } from "express";
+import { ZodError, ZodTypeAny, z } from "zod";
+import {
+  DataErrorResponse,
+  ErrorResponse,
+  FieldIssue,
+  RateLimitedResponse,
+} from "@shared/api";
+import {
+  DataFileError,
+  getProvider,
+  listProviders,
+  RateLimitError,
+} from "./providers";
+
+export function fieldIssues(error: ZodError): FieldIssue[] {
+  return error.issues.map((issue) => ({
+    field: issue.path.join("."),
+    message: issue.message,
+  }));
+}
+
+/** Answer 400 with every failing field, summarized in `error` */
+export function sendInvalid(res: Response, issues: FieldIssue[]) {
+  const body: ErrorResponse = {
+    error: issues
+      .map((issue) =>
+        issue.field ? `${issue.field}: ${issue.message}` : issue.message,
+      )
+      .join("; "),
+    issues,
+  };
+  return res.status(400).json(body);
+}
+
+/**
+ * A query string as plain strings for its schema. Express gives an array
+ * when a key repeats; the last value wins.
+ */
+export function queryValues(query: Request["query"]) {
+  return Object.fromEntries(
+    Object.entries(query).map(([key, value]) => [
+      key,
+      Array.isArray(value) ? String(value[value.length - 1]) : String(value),
+    ]),
+  );
+}
+
+/**
+ * Parse a request body or query against its contract. On failure the 400
+ * has already been sent and the result is undefined.
+ */
+export function parseRequest<T extends ZodTypeAny>(
+  schema: T,
+  input: unknown,
+  res: Response,
+): z.infer<T> | undefined {
+  const result = schema.safeParse(input ?? {});
+  if (!result.success) {
+    sendInvalid(res, fieldIssues(result.error));
+    return undefined;
+  }
+  return result.data;
+}
+
+/**
+ * Send a response after checking it against its contract. A mismatch is a
+ * server bug, so it is logged and answered with a 500 rather than shipped.
+ */
+export function sendValidated<T extends ZodTypeAny>(
+  res: Response,
+  schema: T,
+  body: z.input<T>,
+) {
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    const issues = fieldIssues(result.error)
+      .map((issue) => `${issue.field}: ${issue.message}`)
+      .join("; ");
+    console.error(`Response does not match its contract: ${issues}`);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+  return res.json(result.data);
+}
+
+/** Answer 429 with when to try again, in the header and the body */
+export function sendRateLimited(res: Response, error: RateLimitError) {
+  const body: RateLimitedResponse = {
+    error: error.message,
+    retryAfter: error.retryAfter,
+  };
+  return res.status(429).setHeader("Retry-After", error.retryAfter).json(body);
+}
+
+/**
+ * Answer a market data failure the client can act on: 422 for a malformed
+ * local data file, 429 for a spent quota. Returns undefined, sending
+ * nothing, for any other error.
+ */
+export function sendMarketDataError(res: Response, error: unknown) {
+  if (error instanceof DataFileError) {
+    const body: DataErrorResponse = {
+      error: error.message,
+      file: error.file,
+      issues: error.issues,
+    };
+    return res.status(422).json(body);
+  }
+  if (error instanceof RateLimitError) {
+    return sendRateLimited(res, error);
+  }
+  return undefined;
+}
+
+/** The issue to report when `provider` names no registered provider */
+export function unknownProvider(provider?: string): FieldIssue | null {
+  if (provider === undefined || getProvider(provider)) return null;
+  const known = listProviders().map((p) => `'${p.id}'`);
+  return { field: "provider", message: `must be one of ${known.join(", ")}` };
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_WALK_FORWARD_OPTIONS, runWalkForward } from "./walkForward";
+import { generateSyntheticData } from "./providers/synthetic";
+
+const bars = generateSyntheticData("TEST", {
+  days: 160,
+  endDate: "2024-06-28",
+});
+
+describe("runWalkForward", () => {
+  it("should not change earlier folds when later bars are added", () => {
+    const short = runWalkForward(
+      "TEST",
+      bars.slice(0, 120),
+      DEFAULT_WALK_FORWARD_OPTIONS,
+    );
+    const long = runWalkForward("TEST", bars, DEFAULT_WALK_FORWARD_OPTIONS);
+
+    // The last short fold is truncated, every complete one must match
+    const complete = short.folds.filter((fold) => fold.test.sampleSize === 10);
+    expect(complete.length).toBeGreaterThan(0);
+    expect(long.folds.slice(0, complete.length)).toEqual(complete);
+  });
+
+  it("should keep test windows after their training windows", () => {
+    const result = runWalkForward("TEST", bars, {
+      ...DEFAULT_WALK_FORWARD_OPTIONS,
+      anchored: true,
+    });
+
+    for (const fold of result.folds) {
+      expect(fold.train.from).toBe(result.folds[0].train.from);
+      expect(fold.test.from > fold.train.to).toBe(true);
+    }
+    expect(result.outOfSample.sampleSize).toBe(
+      result.folds.reduce((sum, fold) => sum + fold.test.sampleSize, 0),
+    );
+  });
+
+  it("should refuse histories too short for a single fold", () => {
+    expect(() =>
+      runWalkForward("TEST", bars.slice(0, 60), DEFAULT_WALK_FORWARD_OPTIONS),
+    ).toThrow(/Not enough bars/);
+  });
+});
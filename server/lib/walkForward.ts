@@ -0,0 +1,147 @@
+import { WalkForwardFold, WalkForwardResponse } from "@shared/api";
+import {
+  firstUnseenBar,
+  lastScorableBar,
+  realizedMove,
+  scoreSignals,
+  summarizeScore,
+  WARMUP_BARS,
+} from "./accuracy";
+import { HORIZONS } from "./horizons";
+import { Signal, Timeframe } from "./prediction";
+import { StockData } from "./providers";
+import { getStrategy, StrategyConfig, strategyId } from "./strategies";
+
+export interface WalkForwardOptions {
+  timeframe: Timeframe;
+  trainSize: number;
+  testSize: number;
+  anchored: boolean;
+  strategy: StrategyConfig;
+}
+
+export const DEFAULT_WALK_FORWARD_OPTIONS: WalkForwardOptions = {
+  strategy: getStrategy(),
+  timeframe: "tomorrow",
+  trainSize: 20,
+  testSize: 10,
+  anchored: false,
+};
+
+export class WalkForwardRangeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WalkForwardRangeError";
+  }
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Share of bars in [start, end) whose move over the horizon was up
+function upMoveRate(
+  stockData: StockData[],
+  timeframe: Timeframe,
+  start: number,
+  end: number,
+) {
+  let up = 0;
+  for (let t = start; t < end; t++) {
+    if (realizedMove(stockData, t, timeframe) > 0) up++;
+  }
+  return end > start ? round((up / (end - start)) * 100) : 0;
+}
+
+/**
+ * Roll a training window and an out-of-sample window forward through the
+ * history. Each signal is computed from the bars up to its own date only
+ * (see scoreSignals), and folds never evaluate on bars inside their own
+ * training window, so the out-of-sample figures carry no look-ahead. A
+ * trained model's folds start after the bars it was trained on.
+ */
+export function runWalkForward(
+  symbol: string,
+  stockData: StockData[],
+  options: WalkForwardOptions,
+): Omit<WalkForwardResponse, "dataSource"> {
+  const { timeframe, trainSize, testSize, anchored, strategy } = options;
+  // The last bars have no completed move to score against
+  const lastSignal = lastScorableBar(stockData, timeframe);
+  const unseen = firstUnseenBar(stockData, strategy, symbol);
+  const firstSignal = Math.max(WARMUP_BARS, unseen ?? 0);
+  const folds: WalkForwardFold[] = [];
+  let pooled = { hits: 0, total: 0 };
+  let inSampleTotal = 0;
+  // Training windows overlap, entirely so when anchored
+  const signals = new Map<number, Signal>();
+
+  for (
+    let trainStart = firstSignal, k = 0;
+    trainStart + trainSize < lastSignal;
+    trainStart += testSize, k++
+  ) {
+    const foldTrainStart = anchored ? firstSignal : trainStart;
+    const trainEnd = trainStart + trainSize;
+    const testEnd = Math.min(trainEnd + testSize, lastSignal);
+
+    const train = scoreSignals(
+      stockData,
+      timeframe,
+      foldTrainStart,
+      trainEnd,
+      strategy,
+      signals,
+    );
+    const test = scoreSignals(
+      stockData,
+      timeframe,
+      trainEnd,
+      testEnd,
+      strategy,
+      signals,
+    );
+    const trainReport = summarizeScore(train);
+
+    folds.push({
+      fold: k + 1,
+      train: {
+        from: stockData[foldTrainStart].date,
+        to: stockData[trainEnd - 1].date,
+        ...trainReport,
+      },
+      test: {
+        from: stockData[trainEnd].date,
+        to: stockData[testEnd - 1].date,
+        ...summarizeScore(test),
+        signals: test.signals,
+        baseline: upMoveRate(stockData, timeframe, trainEnd, testEnd),
+      },
+    });
+
+    pooled = {
+      hits: pooled.hits + test.hits,
+      total: pooled.total + test.total,
+    };
+    inSampleTotal += trainReport.hitRate;
+  }
+
+  if (folds.length === 0) {
+    throw new WalkForwardRangeError(
+      `Not enough bars for a walk-forward run on ${symbol}: need ${firstSignal + trainSize + HORIZONS[timeframe].bars + 1}, have ${stockData.length}`,
+    );
+  }
+
+  const outOfSample = {
+    ...summarizeScore(pooled),
+    ...(unseen === null && { inSample: true }),
+  };
+
+  return {
+    symbol,
+    strategy: strategyId(strategy),
+    timeframe,
+    anchored,
+    folds,
+    outOfSample,
+    degradation: round(inSampleTotal / folds.length - outOfSample.hitRate),
+  };
+}
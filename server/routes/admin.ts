@@ -0,0 +1,74 @@
+import { createHash, timingSafeEqual } from "crypto";
+import { RequestHandler } from "express";
+import {
+  cacheInvalidateQuerySchema,
+  cacheInvalidateResponseSchema,
+  cacheStatsResponseSchema,
+} from "../../shared/api";
+import { expireSeries } from "../lib/barStore";
+import { cacheStats, invalidateCaches } from "../lib/cache";
+import { parseRequest, queryValues, sendValidated } from "../lib/validation";
+
+// Compared as digests so neither the length nor the content leaks in timing
+const digest = (token: string) => createHash("sha256").update(token).digest();
+
+/**
+ * Lets through only requests bearing ADMIN_TOKEN. Admin endpoints are
+ * disabled while it is unset.
+ */
+export const requireAdmin: RequestHandler = (req, res, next) => {
+  const token = process.env.ADMIN_TOKEN;
+  if (!token) {
+    return res.status(403).json({
+      error: "Admin endpoints are disabled; set ADMIN_TOKEN to enable them",
+    });
+  }
+  const given = req.get("Authorization")?.replace(/^Bearer\s+/i, "") ?? "";
+  if (!timingSafeEqual(digest(given), digest(token))) {
+    return res
+      .status(401)
+      .setHeader("WWW-Authenticate", "Bearer")
+      .json({ error: "A valid admin token is required" });
+  }
+  next();
+};
+
+export const handleCacheStats: RequestHandler = (_req, res) => {
+  try {
+    sendValidated(res, cacheStatsResponseSchema, { namespaces: cacheStats() });
+  } catch (error) {
+    console.error("Cache stats error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+/**
+ * Drop cached entries so the next request refetches them, e.g. after
+ * correcting a local data file. Dropping daily bars also expires their
+ * stored series, which would otherwise be served for hours.
+ */
+export const handleCacheInvalidate: RequestHandler = async (req, res) => {
+  try {
+    const query = parseRequest(
+      cacheInvalidateQuerySchema,
+      queryValues(req.query),
+      res,
+    );
+    if (!query) return;
+
+    const symbol = query.symbol?.toUpperCase();
+    const removed = invalidateCaches(query.namespace, symbol);
+    const expired =
+      query.namespace === undefined || query.namespace === "daily"
+        ? await expireSeries(symbol)
+        : 0;
+    sendValidated(res, cacheInvalidateResponseSchema, {
+      removed,
+      expired,
+      namespaces: cacheStats(),
+    });
+  } catch (error) {
+    console.error("Cache invalidation error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
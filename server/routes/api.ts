@@ -0,0 +1,173 @@
+import {
+  backtestRequestSchema,
+  backtestResponseSchema,
+  batchPredictRequestSchema,
+  batchPredictionResponseSchema,
+  cacheInvalidateQuerySchema,
+  cacheInvalidateResponseSchema,
+  cacheStatsResponseSchema,
+  demoResponseSchema,
+  historyQuerySchema,
+  historyResponseSchema,
+  indicatorsQuerySchema,
+  indicatorsResponseSchema,
+  pingResponseSchema,
+  predictRequestSchema,
+  predictionResponseSchema,
+  simulationRequestSchema,
+  simulationResponseSchema,
+  symbolParamsSchema,
+  walkForwardRequestSchema,
+  walkForwardResponseSchema,
+} from "../../shared/api";
+import { ApiRoute } from "../lib/openapi";
+import { handleCacheInvalidate, handleCacheStats } from "./admin";
+import { handleBacktest, handleWalkForward } from "./backtest";
+import { handleDemo } from "./demo";
+import { handleHistory, handleIndicators } from "./history";
+import { handlePing } from "./ping";
+import { handlePredict, handlePredictBatch } from "./predict";
+import { handleSimulate } from "./simulate";
+
+/**
+ * Every API route with its contracts. The server registers these, and
+ * /api/openapi.json describes the same list.
+ */
+export const API_ROUTES: ApiRoute[] = [
+  {
+    method: "get",
+    path: "/api/ping",
+    operationId: "ping",
+    tag: "Server",
+    summary: "Check that the server is up",
+    description: "Answers with PING_MESSAGE from the environment, or 'ping'.",
+    handler: handlePing,
+    response: pingResponseSchema,
+  },
+  {
+    method: "get",
+    path: "/api/demo",
+    operationId: "demo",
+    tag: "Server",
+    summary: "Example route",
+    handler: handleDemo,
+    response: demoResponseSchema,
+  },
+  {
+    method: "post",
+    path: "/api/predict",
+    operationId: "predict",
+    tag: "Predictions",
+    summary: "Predict a BUY, SELL or HOLD signal for one symbol",
+    description:
+      "Scores the latest bars with one strategy, or with several voting when `ensemble` is set, and reports the strategy's backtested accuracy, the market regime and a price range at the horizon.",
+    handler: handlePredict,
+    body: predictRequestSchema,
+    response: predictionResponseSchema,
+    errors: [400, 404, 422, 429],
+    examples: { body: { symbol: "AAPL", timeframe: "tomorrow" } },
+  },
+  {
+    method: "post",
+    path: "/api/predict/batch",
+    operationId: "predictBatch",
+    tag: "Predictions",
+    summary: "Predict several symbols with the same options",
+    description:
+      "A symbol that cannot be predicted is listed in `errors` without failing the rest.",
+    handler: handlePredictBatch,
+    body: batchPredictRequestSchema,
+    response: batchPredictionResponseSchema,
+    errors: [400],
+    examples: { body: { symbols: ["AAPL", "MSFT"], timeframe: "1w" } },
+  },
+  {
+    method: "post",
+    path: "/api/backtest",
+    operationId: "backtest",
+    tag: "Backtesting",
+    summary: "Trade a strategy's signals over past bars",
+    handler: handleBacktest,
+    body: backtestRequestSchema,
+    response: backtestResponseSchema,
+    errors: [400, 404, 422, 429],
+    examples: {
+      body: { symbol: "AAPL", initialCapital: 10000, commissionRate: 0.001 },
+    },
+  },
+  {
+    method: "post",
+    path: "/api/backtest/walk-forward",
+    operationId: "walkForward",
+    tag: "Backtesting",
+    summary: "Compare in-sample and out-of-sample hit rates across folds",
+    handler: handleWalkForward,
+    body: walkForwardRequestSchema,
+    response: walkForwardResponseSchema,
+    errors: [400, 404, 422, 429],
+    examples: { body: { symbol: "AAPL", timeframe: "tomorrow" } },
+  },
+  {
+    method: "post",
+    path: "/api/simulate",
+    operationId: "simulate",
+    tag: "Simulation",
+    summary: "Simulate future price paths from the symbol's past returns",
+    handler: handleSimulate,
+    body: simulationRequestSchema,
+    response: simulationResponseSchema,
+    errors: [400, 404, 422, 429],
+    examples: { body: { symbol: "AAPL", method: "bootstrap", days: 21 } },
+  },
+  {
+    method: "get",
+    path: "/api/history/:symbol",
+    operationId: "history",
+    tag: "Market data",
+    summary: "Daily, weekly or monthly bars for a symbol",
+    handler: handleHistory,
+    params: symbolParamsSchema,
+    query: historyQuerySchema,
+    response: historyResponseSchema,
+    errors: [400, 404, 422, 429],
+    examples: { params: { symbol: "AAPL" }, query: { interval: "1w" } },
+  },
+  {
+    method: "get",
+    path: "/api/indicators/:symbol",
+    operationId: "indicators",
+    tag: "Market data",
+    summary: "Indicator series aligned with a symbol's bars",
+    handler: handleIndicators,
+    params: symbolParamsSchema,
+    query: indicatorsQuerySchema,
+    response: indicatorsResponseSchema,
+    errors: [400, 404, 422, 429],
+    examples: { params: { symbol: "AAPL" }, query: { names: "rsi,macd" } },
+  },
+  {
+    method: "get",
+    path: "/api/admin/cache",
+    operationId: "cacheStats",
+    tag: "Admin",
+    summary: "Size, hit, miss and eviction counters of each cache",
+    handler: handleCacheStats,
+    admin: true,
+    response: cacheStatsResponseSchema,
+  },
+  {
+    method: "delete",
+    path: "/api/admin/cache",
+    operationId: "invalidateCache",
+    tag: "Admin",
+    summary: "Drop cached entries",
+    description:
+      "Clears one namespace or all of them, optionally only for one symbol, so the next request refetches. Clearing daily bars also expires their stored series, so providers are asked for new bars.",
+    handler: handleCacheInvalidate,
+    admin: true,
+    query: cacheInvalidateQuerySchema,
+    response: cacheInvalidateResponseSchema,
+    errors: [400],
+    examples: { query: { symbol: "AAPL" } },
+  },
+];
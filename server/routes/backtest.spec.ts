@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { Request, Response } from "express";
+import { BacktestResponse } from "@shared/api";
+import { ANALYSIS_BARS } from "../lib/marketData";
+import { registerProvider } from "../lib/providers";
+import { generateSyntheticData } from "../lib/providers/synthetic";
+import { handleBacktest } from "./backtest";
+
+const history = generateSyntheticData("LONG", {
+  days: 2 * ANALYSIS_BARS,
+  endDate: "2024-06-28",
+});
+
+registerProvider({
+  id: "long-history-test",
+  name: "long-history-test",
+  synthetic: false,
+  isAvailable: () => true,
+  fetchDaily: async () => history,
+});
+
+function fakeResponse() {
+  const res = {
+    statusCode: 200,
+    body: undefined as unknown,
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    json(body: unknown) {
+      res.body = body;
+      return res;
+    },
+  };
+  return res;
+}
+
+async function backtest(body: Record<string, unknown>) {
+  const res = fakeResponse();
+  await handleBacktest(
+    {
+      body: { symbol: "LONG", provider: "long-history-test", ...body },
+    } as Request,
+    res as unknown as Response,
+    () => {},
+  );
+  return res;
+}
+
+describe("handleBacktest", () => {
+  it("should replay at most ANALYSIS_BARS of a long history", async () => {
+    const res = await backtest({});
+
+    expect(res.statusCode).toBe(200);
+    const { equityCurve, to } = res.body as BacktestResponse;
+    expect(equityCurve.length).toBeLessThanOrEqual(ANALYSIS_BARS);
+    expect(to).toBe(history[history.length - 1].date);
+  });
+
+  it("should end the capped window at the requested date", async () => {
+    const end = history[ANALYSIS_BARS + 100].date;
+    const res = await backtest({ to: end });
+
+    expect(res.statusCode).toBe(200);
+    const { equityCurve, to } = res.body as BacktestResponse;
+    expect(equityCurve.length).toBeLessThanOrEqual(ANALYSIS_BARS);
+    expect(to).toBe(end);
+  });
+});
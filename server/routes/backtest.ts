@@ -0,0 +1,126 @@
+import { RequestHandler } from "express";
+import { BacktestRequest, FieldIssue } from "@shared/api";
+import {
+  backtestRequestSchema,
+  backtestResponseSchema,
+  walkForwardRequestSchema,
+  walkForwardResponseSchema,
+} from "../../shared/api";
+import {
+  BacktestRangeError,
+  DEFAULT_BACKTEST_OPTIONS,
+  runBacktest,
+} from "../lib/backtest";
+import { fetchStockData, recentBars } from "../lib/marketData";
+import { getStrategy, supportsTimeframe } from "../lib/strategies";
+import {
+  parseRequest,
+  sendInvalid,
+  sendMarketDataError,
+  sendValidated,
+  unknownProvider,
+} from "../lib/validation";
+import {
+  DEFAULT_WALK_FORWARD_OPTIONS,
+  runWalkForward,
+  WalkForwardRangeError,
+} from "../lib/walkForward";
+
+// Checks the schema cannot make: the provider and strategy must exist, and
+// the strategy must serve the timeframe
+function resolveCommon(
+  body: Pick<BacktestRequest, "timeframe" | "provider" | "strategy">,
+): FieldIssue | null {
+  const providerIssue = unknownProvider(body.provider);
+  if (providerIssue) return providerIssue;
+  const strategy = getStrategy(body.strategy);
+  if (!strategy) {
+    return {
+      field: "strategy",
+      message: `Unknown strategy '${body.strategy}'`,
+    };
+  }
+  if (body.timeframe && !supportsTimeframe(strategy, body.timeframe)) {
+    return {
+      field: "timeframe",
+      message: `Strategy '${body.strategy}' does not support the '${body.timeframe}' timeframe`,
+    };
+  }
+  return null;
+}
+
+export const handleBacktest: RequestHandler = async (req, res) => {
+  try {
+    const body = parseRequest(backtestRequestSchema, req.body, res);
+    if (!body) return;
+    const issue = resolveCommon(body);
+    if (issue) return sendInvalid(res, [issue]);
+
+    const stockSymbol = body.symbol.toUpperCase();
+    const { bars, source } = await fetchStockData(stockSymbol, body.provider);
+
+    if (bars.length === 0) {
+      return res.status(404).json({ error: "Stock data not found" });
+    }
+
+    // Replaying a bar costs a prediction over everything before it, so only
+    // the most recent ANALYSIS_BARS up to `to` are kept
+    const { symbol, provider, strategy, ...overrides } = body;
+    const inRange = body.to ? bars.filter((bar) => bar.date <= body.to) : bars;
+    const result = runBacktest(stockSymbol, recentBars(inRange), {
+      ...DEFAULT_BACKTEST_OPTIONS,
+      ...Object.fromEntries(
+        Object.entries(overrides).filter(([, value]) => value !== undefined),
+      ),
+      strategy: getStrategy(strategy),
+    });
+
+    sendValidated(res, backtestResponseSchema, {
+      ...result,
+      dataSource: source,
+    });
+  } catch (error) {
+    if (error instanceof BacktestRangeError) {
+      return res.status(422).json({ error: error.message });
+    }
+    if (sendMarketDataError(res, error)) return;
+    console.error("Backtest error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const handleWalkForward: RequestHandler = async (req, res) => {
+  try {
+    const body = parseRequest(walkForwardRequestSchema, req.body, res);
+    if (!body) return;
+    const issue = resolveCommon(body);
+    if (issue) return sendInvalid(res, [issue]);
+
+    const stockSymbol = body.symbol.toUpperCase();
+    const { bars, source } = await fetchStockData(stockSymbol, body.provider);
+
+    if (bars.length === 0) {
+      return res.status(404).json({ error: "Stock data not found" });
+    }
+
+    const result = runWalkForward(stockSymbol, recentBars(bars), {
+      strategy: getStrategy(body.strategy),
+      timeframe: body.timeframe ?? DEFAULT_WALK_FORWARD_OPTIONS.timeframe,
+      trainSize: body.trainSize ?? DEFAULT_WALK_FORWARD_OPTIONS.trainSize,
+      testSize: body.testSize ?? DEFAULT_WALK_FORWARD_OPTIONS.testSize,
+      anchored: body.anchored ?? DEFAULT_WALK_FORWARD_OPTIONS.anchored,
+    });
+
+    sendValidated(res, walkForwardResponseSchema, {
+      ...result,
+      dataSource: source,
+    });
+  } catch (error) {
+    if (error instanceof WalkForwardRangeError) {
+      return res.status(422).json({ error: error.message });
+    }
+    if (sendMarketDataError(res, error)) return;
+    console.error("Walk-forward error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
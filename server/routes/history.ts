@@ -0,0 +1,95 @@
+import { RequestHandler } from "express";
+import {
+  historyQuerySchema,
+  historyResponseSchema,
+  indicatorsQuerySchema,
+  indicatorsResponseSchema,
+  symbolParamsSchema,
+} from "../../shared/api";
+import { dateRange, resampleBars } from "../lib/history";
+import {
+  computeIndicators,
+  IndicatorSpecError,
+  parseIndicatorList,
+} from "../lib/indicatorSeries";
+import { fetchStockData } from "../lib/marketData";
+import {
+  parseRequest,
+  queryValues,
+  sendInvalid,
+  sendMarketDataError,
+  sendValidated,
+  unknownProvider,
+} from "../lib/validation";
+
+export const handleHistory: RequestHandler = async (req, res) => {
+  try {
+    const query = parseRequest(historyQuerySchema, queryValues(req.query), res);
+    if (!query) return;
+    const params = parseRequest(symbolParamsSchema, req.params, res);
+    if (!params) return;
+    const issue = unknownProvider(query.provider);
+    if (issue) return sendInvalid(res, [issue]);
+
+    const interval = query.interval ?? "1d";
+    const symbol = params.symbol.toUpperCase();
+    const { bars, source } = await fetchStockData(symbol, query.provider);
+    if (bars.length === 0) {
+      return res.status(404).json({ error: "Stock data not found" });
+    }
+
+    const resampled = resampleBars(bars, interval);
+    const { start, end } = dateRange(resampled, query.from, query.to);
+    sendValidated(res, historyResponseSchema, {
+      symbol,
+      interval,
+      bars: resampled.slice(start, end),
+      dataSource: source,
+    });
+  } catch (error) {
+    if (sendMarketDataError(res, error)) return;
+    console.error("History error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const handleIndicators: RequestHandler = async (req, res) => {
+  try {
+    const query = parseRequest(
+      indicatorsQuerySchema,
+      queryValues(req.query),
+      res,
+    );
+    if (!query) return;
+    const params = parseRequest(symbolParamsSchema, req.params, res);
+    if (!params) return;
+    const issue = unknownProvider(query.provider);
+    if (issue) return sendInvalid(res, [issue]);
+
+    const interval = query.interval ?? "1d";
+    const requests = parseIndicatorList(query.names);
+
+    const symbol = params.symbol.toUpperCase();
+    const { bars, source } = await fetchStockData(symbol, query.provider);
+    if (bars.length === 0) {
+      return res.status(404).json({ error: "Stock data not found" });
+    }
+
+    const resampled = resampleBars(bars, interval);
+    const { start, end } = dateRange(resampled, query.from, query.to);
+    sendValidated(res, indicatorsResponseSchema, {
+      symbol,
+      interval,
+      dates: resampled.slice(start, end).map((bar) => bar.date),
+      indicators: computeIndicators(resampled, requests, start, end),
+      dataSource: source,
+    });
+  } catch (error) {
+    if (error instanceof IndicatorSpecError) {
+      return sendInvalid(res, [{ field: "names", message: error.message }]);
+    }
+    if (sendMarketDataError(res, error)) return;
+    console.error("Indicators error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
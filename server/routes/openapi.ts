@@ -0,0 +1,14 @@
+import { RequestHandler } from "express";
+import { openApiDocumentSchema } from "../../shared/api";
+import { buildOpenApiDocument } from "../lib/openapi";
+import { sendValidated } from "../lib/validation";
+import { API_ROUTES } from "./api";
+
+export const handleOpenApi: RequestHandler = (_req, res) => {
+  try {
+    sendValidated(res, openApiDocumentSchema, buildOpenApiDocument(API_ROUTES));
+  } catch (error) {
+    console.error("OpenAPI document error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
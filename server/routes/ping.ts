@@ -0,0 +1,9 @@
+import { RequestHandler } from "express";
+import { PingResponse } from "@shared/api";
+
+export const handlePing: RequestHandler = (_req, res) => {
+  const response: PingResponse = {
+    message: process.env.PING_MESSAGE ?? "ping",
+  };
+  res.json(response);
+};
@@ -1,399 +1,327 @@
 import { RequestHandler } from "express";
-import fetch from "node-fetch";
-
-// Simple in-memory cache
-const cache = new Map<string, { data: any; timestamp: number }>();
-const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
-
-function getCachedData(key: string) {
-  const cached = cache.get(key);
-  if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
-    return cached.data;
-  }
-  return null;
+import {
+  EnsembleMethod,
+  FieldIssue,
+  PredictRequest,
+  PredictionResponse,
+  PriceTargetMethod,
+  Timeframe,
+} from "@shared/api";
+import {
+  batchPredictionResponseSchema,
+  batchPredictRequestSchema,
+  predictionResponseSchema,
+  predictRequestSchema,
+} from "../../shared/api";
+import { rsi } from "../../shared/indicators";
+import { measureAccuracy } from "../lib/accuracy";
+import { cacheKey, getCache } from "../lib/cache";
+import { runEnsemble } from "../lib/ensemble";
+import { mapWithConcurrency } from "../lib/concurrency";
+import { HORIZONS, TIMEFRAMES } from "../lib/horizons";
+import { fetchStockData, recentBars } from "../lib/marketData";
+import { forecastPriceTargets } from "../lib/priceTargets";
+import { analyzeStock, makePrediction } from "../lib/prediction";
+import {
+  DataFileError,
+  RateLimitError,
+  resolveProvider,
+} from "../lib/providers";
+import { detectRegime } from "../lib/regime";
+import {
+  getStrategy,
+  listStrategies,
+  StrategyConfig,
+  strategyId,
+  supportsTimeframe,
+} from "../lib/strategies";
+import {
+  parseRequest,
+  sendInvalid,
+  sendMarketDataError,
+  sendValidated,
+  unknownProvider,
+} from "../lib/validation";
+
+// Number of recent RSI and price points returned for the charts
+const CHART_BARS = 30;
+
+// Symbols fetched at once when the provider sets no limit of its own
+const DEFAULT_BATCH_CONCURRENCY = 4;
+
+/** Everything about a prediction request except the symbol */
+interface PredictOptions {
+  timeframe: Timeframe;
+  provider?: string;
+  strategy: StrategyConfig;
+  /** Set when several strategies vote */
+  members?: StrategyConfig[];
+  method: EnsembleMethod;
+  targetMethod: PriceTargetMethod;
 }
 
-function setCachedData(key: string, data: any) {
-  cache.set(key, { data, timestamp: Date.now() });
-
-  // Clean up old cache entries
-  if (cache.size > 100) {
-    const oldestKey = Array.from(cache.keys())[0];
-    cache.delete(oldestKey);
+const predictions = getCache<PredictionResponse>("predictions");
+
+const invalid = (field: string, message: string) => ({
+  issue: { field, message },
+});
+
+/**
+ * Resolve the options the schema cannot check on its own: the provider and
+ * strategies must exist and serve the timeframe. Returns the failing field,
+ * or the options with defaults filled in.
+ */
+function resolveOptions(
+  body: Omit<PredictRequest, "symbol">,
+): { issue: FieldIssue } | PredictOptions {
+  const {
+    timeframe = "tomorrow",
+    provider,
+    strategy,
+    ensemble,
+    targetMethod = "historical",
+  } = body;
+
+  const providerIssue = unknownProvider(provider);
+  if (providerIssue) return { issue: providerIssue };
+
+  const selectedStrategy = getStrategy(strategy);
+  if (!selectedStrategy) {
+    const known = listStrategies().map((s) => `'${strategyId(s)}'`);
+    return invalid("strategy", `must be one of ${known.join(", ")}`);
   }
-}
-
-interface StockData {
-  date: string;
-  open: number;
-  high: number;
-  low: number;
-  close: number;
-  volume: number;
-}
-
-interface PredictionResponse {
-  symbol: string;
-  prediction: "BUY" | "SELL" | "HOLD";
-  confidence: number;
-  accuracy: number;
-  timeframe: "today" | "tomorrow";
-  features: {
-    rsi: number;
-    trend: string;
-    volatility: string;
-    volume_trend: string;
-  };
-}
-
-// Calculate RSI
-function calculateRSI(prices: number[], period: number = 14): number {
-  if (prices.length < period + 1) return 50;
-
-  const changes = prices.slice(1).map((price, i) => price - prices[i]);
-  const gains = changes.map((change) => (change > 0 ? change : 0));
-  const losses = changes.map((change) => (change < 0 ? -change : 0));
-
-  const avgGain =
-    gains.slice(-period).reduce((sum, gain) => sum + gain, 0) / period;
-  const avgLoss =
-    losses.slice(-period).reduce((sum, loss) => sum + loss, 0) / period;
-
-  if (avgLoss === 0) return 100;
-  const rs = avgGain / avgLoss;
-  return 100 - 100 / (1 + rs);
-}
-
-// Calculate Simple Moving Average
-function calculateSMA(prices: number[], period: number): number {
-  if (prices.length < period) return prices[prices.length - 1];
-  const recent = prices.slice(-period);
-  return recent.reduce((sum, price) => sum + price, 0) / period;
-}
-
-// Calculate Bollinger Bands
-function calculateBollingerBands(prices: number[], period: number = 20) {
-  const sma = calculateSMA(prices, period);
-  const recent = prices.slice(-period);
-  const variance =
-    recent.reduce((sum, price) => sum + Math.pow(price - sma, 2), 0) / period;
-  const stdDev = Math.sqrt(variance);
-
-  return {
-    upper: sma + 2 * stdDev,
-    middle: sma,
-    lower: sma - 2 * stdDev,
-  };
-}
-
-async function fetchStockData(symbol: string): Promise<StockData[]> {
-  const cacheKey = `stock_${symbol}`;
 
-  // Check cache first
-  const cachedData = getCachedData(cacheKey);
-  if (cachedData) {
-    return cachedData;
+  if (!ensemble && !supportsTimeframe(selectedStrategy, timeframe)) {
+    return invalid(
+      "timeframe",
+      `'${strategyId(selectedStrategy)}' does not support the '${timeframe}' timeframe`,
+    );
   }
 
-  try {
-    // Using Alpha Vantage API (free tier) - you can replace with other APIs
-    const API_KEY = process.env.ALPHA_VANTAGE_API_KEY || "demo";
-
-    if (API_KEY === "demo") {
-      // Generate demo data for popular stocks
-      const stockData = generateDemoData(symbol);
-      setCachedData(cacheKey, stockData);
-      return stockData;
-    }
-
-    const url = `https://www.alphavantage.co/query?function=TIME_SERIES_DAILY&symbol=${symbol}&apikey=${API_KEY}`;
-
-    const response = await fetch(url, { timeout: 10000 });
-    const data = (await response.json()) as any;
-
-    if (data["Error Message"] || data["Note"]) {
-      // Fallback to demo data for popular stocks
-      const stockData = generateDemoData(symbol);
-      setCachedData(cacheKey, stockData);
-      return stockData;
+  let members: StrategyConfig[] | undefined;
+  const method = ensemble?.method ?? "majority";
+  if (ensemble !== undefined) {
+    // Default to the latest version of every strategy
+    const ids =
+      ensemble.strategies ??
+      Array.from(new Set(listStrategies().map((s) => s.name)));
+    members = ids.map((id) => getStrategy(id));
+    if (members.some((member) => !member)) {
+      const known = listStrategies().map((s) => `'${strategyId(s)}'`);
+      return invalid(
+        "ensemble.strategies",
+        `must be among ${known.join(", ")}`,
+      );
     }
-
-    const timeSeries = data["Time Series (Daily)"];
-    if (!timeSeries) {
-      const stockData = generateDemoData(symbol);
-      setCachedData(cacheKey, stockData);
-      return stockData;
+    // The same strategy twice would just double its vote
+    members = Array.from(
+      new Map(members.map((member) => [strategyId(member), member])).values(),
+    );
+    if (members.length < 2) {
+      return invalid(
+        "ensemble.strategies",
+        "must name at least two different strategies",
+      );
     }
-
-    const stockData: StockData[] = Object.entries(timeSeries)
-      .slice(0, 100) // Get last 100 days
-      .map(([date, values]: [string, any]) => ({
-        date,
-        open: parseFloat(values["1. open"]),
-        high: parseFloat(values["2. high"]),
-        low: parseFloat(values["3. low"]),
-        close: parseFloat(values["4. close"]),
-        volume: parseInt(values["5. volume"]),
-      }))
-      .reverse(); // Oldest first
-
-    // Cache the result
-    setCachedData(cacheKey, stockData);
-    return stockData;
-  } catch (error) {
-    console.error("Error fetching stock data:", error);
-    const stockData = generateDemoData(symbol);
-    setCachedData(cacheKey, stockData);
-    return stockData;
-  }
-}
-
-// Popular stock base prices for more realistic demo data
-const STOCK_BASE_PRICES: Record<string, number> = {
-  AAPL: 175,
-  MSFT: 350,
-  GOOGL: 140,
-  AMZN: 155,
-  TSLA: 250,
-  NVDA: 800,
-  META: 350,
-  NFLX: 450,
-  BABA: 90,
-  V: 270,
-  RELIANCE: 2800,
-  TCS: 3500,
-  HDFCBANK: 1600,
-  INFY: 1800,
-  HINDUNILVR: 2400,
-  ITC: 450,
-  SBIN: 750,
-  BHARTIARTL: 1200,
-  KOTAKBANK: 1800,
-  LT: 3200,
-  ASIANPAINT: 3000,
-  MARUTI: 11000,
-};
-
-// Generate realistic demo data for testing
-function generateDemoData(symbol: string): StockData[] {
-  const data: StockData[] = [];
-  let basePrice = STOCK_BASE_PRICES[symbol] || 150;
-
-  // Add some randomness to the base price
-  basePrice *= 0.9 + Math.random() * 0.2;
-
-  for (let i = 0; i < 100; i++) {
-    // More realistic volatility based on stock type
-    const volatility = symbol.includes("CRYPTO")
-      ? 0.05
-      : symbol.startsWith("TESLA") || symbol.startsWith("NVDA")
-        ? 0.03
-        : 0.02;
-
-    // Market cycles and trends
-    const longTrend = Math.sin(i * 0.05) * 0.003; // Long-term cycle
-    const shortTrend = Math.sin(i * 0.2) * 0.001; // Short-term fluctuation
-    const randomWalk = (Math.random() - 0.5) * volatility;
-
-    basePrice *= 1 + longTrend + shortTrend + randomWalk;
-
-    // Ensure price stays positive
-    basePrice = Math.max(basePrice, 1);
-
-    const dailyVolatility = 0.005;
-    const open = basePrice * (1 + (Math.random() - 0.5) * dailyVolatility);
-    const close = basePrice * (1 + (Math.random() - 0.5) * dailyVolatility);
-    const high =
-      Math.max(open, close) * (1 + Math.random() * dailyVolatility * 2);
-    const low =
-      Math.min(open, close) * (1 - Math.random() * dailyVolatility * 2);
-
-    // Volume varies with price movements
-    const priceChange = Math.abs(close - open) / open;
-    const baseVolume = symbol.startsWith("RELIANCE")
-      ? 5000000
-      : symbol.startsWith("AAPL")
-        ? 50000000
-        : 2000000;
-    const volume = Math.floor(
-      baseVolume * (1 + priceChange * 5) * (0.5 + Math.random()),
+    const unsupported = members.filter(
+      (member) => !supportsTimeframe(member, timeframe),
     );
-
-    data.push({
-      date: new Date(Date.now() - (99 - i) * 24 * 60 * 60 * 1000)
-        .toISOString()
-        .split("T")[0],
-      open: Number(open.toFixed(2)),
-      high: Number(high.toFixed(2)),
-      low: Number(low.toFixed(2)),
-      close: Number(close.toFixed(2)),
-      volume,
-    });
+    if (unsupported.length > 0) {
+      return invalid(
+        "ensemble.strategies",
+        `${unsupported.map((m) => `'${strategyId(m)}'`).join(", ")} cannot predict the '${timeframe}' timeframe`,
+      );
+    }
   }
 
-  return data;
-}
-
-function analyzeStock(stockData: StockData[]): PredictionResponse["features"] {
-  const closes = stockData.map((d) => d.close);
-  const volumes = stockData.map((d) => d.volume);
-
-  // Calculate RSI
-  const rsi = calculateRSI(closes);
-
-  // Calculate trend using moving averages
-  const sma10 = calculateSMA(closes, 10);
-  const sma50 = calculateSMA(closes, 50);
-  const trend = sma10 > sma50 ? "BULLISH" : "BEARISH";
-
-  // Calculate volatility using Bollinger Bands
-  const bb = calculateBollingerBands(closes);
-  const currentPrice = closes[closes.length - 1];
-  let volatility = "NORMAL";
-
-  if (currentPrice > bb.upper) volatility = "HIGH";
-  else if (currentPrice < bb.lower) volatility = "LOW";
-
-  // Volume trend
-  const recentVolume = calculateSMA(volumes, 5);
-  const olderVolume = calculateSMA(volumes.slice(-20, -5), 15);
-  const volume_trend = recentVolume > olderVolume ? "INCREASING" : "DECREASING";
-
   return {
-    rsi: Math.round(rsi * 100) / 100,
-    trend,
-    volatility,
-    volume_trend,
+    timeframe,
+    provider,
+    strategy: selectedStrategy,
+    members,
+    method,
+    targetMethod,
   };
 }
 
-function makePrediction(
-  stockData: StockData[],
-  timeframe: "today" | "tomorrow",
-): { prediction: "BUY" | "SELL" | "HOLD"; confidence: number } {
-  const features = analyzeStock(stockData);
-  const closes = stockData.map((d) => d.close);
-
-  let score = 0;
-  let signals = 0;
-
-  // RSI signals
-  if (features.rsi < 30) {
-    score += 2; // Strong buy signal
-    signals++;
-  } else if (features.rsi > 70) {
-    score -= 2; // Strong sell signal
-    signals++;
-  } else if (features.rsi < 50) {
-    score += 1; // Weak buy signal
-    signals++;
-  } else {
-    score -= 1; // Weak sell signal
-    signals++;
-  }
-
-  // Trend signals
-  if (features.trend === "BULLISH") {
-    score += 1;
-    signals++;
-  } else {
-    score -= 1;
-    signals++;
-  }
-
-  // Volume signals
-  if (features.volume_trend === "INCREASING" && features.trend === "BULLISH") {
-    score += 1;
-    signals++;
-  } else if (
-    features.volume_trend === "INCREASING" &&
-    features.trend === "BEARISH"
-  ) {
-    score -= 1;
-    signals++;
-  }
-
-  // Volatility consideration
-  if (features.volatility === "HIGH") {
-    score *= 0.8; // Reduce confidence in high volatility
-  }
-
-  // Calculate confidence based on signal strength
-  const maxPossibleScore = signals * 2;
-  let confidence = Math.min(Math.abs(score) / maxPossibleScore, 1);
-
-  // Adjust confidence based on timeframe
-  if (timeframe === "today") {
-    // Today's predictions are less reliable due to short timeframe
-    confidence *= 0.8;
-    score *= 0.9; // Reduce signal strength for today
-  }
-
-  // Make prediction
-  let prediction: "BUY" | "SELL" | "HOLD";
-  const confidenceThreshold = timeframe === "today" ? 0.5 : 0.6;
-
-  if (score > 1 && confidence > confidenceThreshold) {
-    prediction = "BUY";
-  } else if (score < -1 && confidence > confidenceThreshold) {
-    prediction = "SELL";
-  } else {
-    prediction = "HOLD";
-  }
+// Every option that changes the prediction
+function predictionKey(stockSymbol: string, options: PredictOptions) {
+  const { timeframe, strategy, members, method, targetMethod } = options;
+  return cacheKey(
+    stockSymbol,
+    resolveProvider(options.provider).id,
+    timeframe,
+    strategyId(strategy),
+    members ? `${method}:${members.map(strategyId).join(",")}` : "single",
+    targetMethod,
+  );
+}
 
-  return {
-    prediction,
-    confidence: Math.round(confidence * 100),
+/** Predict one symbol; null when the provider has no bars for it */
+async function predictSymbol(
+  stockSymbol: string,
+  options: PredictOptions,
+): Promise<PredictionResponse | null> {
+  const key = predictionKey(stockSymbol, options);
+  const cached = predictions.get(key);
+  if (cached) return cached;
+
+  const {
+    timeframe,
+    strategy: selectedStrategy,
+    members,
+    method,
+    targetMethod,
+  } = options;
+
+  // Fetch stock data
+  const { bars, source } = await fetchStockData(stockSymbol, options.provider);
+  const stockData = recentBars(bars);
+
+  if (stockData.length === 0) return null;
+
+  // Analyze and make prediction
+  const { windows } = HORIZONS[timeframe];
+  const features = analyzeStock(stockData, selectedStrategy.rsiMethod, windows);
+  const result = members
+    ? runEnsemble(stockData, timeframe, members, method, stockSymbol)
+    : {
+        ...makePrediction(stockData, timeframe, selectedStrategy),
+        accuracy: undefined,
+        ensemble: undefined,
+      };
+
+  // Measure accuracy by replaying the model over this symbol's recent history,
+  // at every horizon so they can be compared
+  const accuracyByHorizon = members
+    ? undefined
+    : Object.fromEntries(
+        TIMEFRAMES.filter((t) => supportsTimeframe(selectedStrategy, t)).map(
+          (t) => [
+            t,
+            measureAccuracy(stockData, t, selectedStrategy, stockSymbol),
+          ],
+        ),
+      );
+
+  const rsiValues = rsi(
+    stockData.map((d) => d.close),
+    windows.rsi,
+    selectedStrategy.rsiMethod,
+  );
+  const rsiSeries = stockData
+    .map((bar, i) => ({ date: bar.date, value: rsiValues[i] }))
+    .filter((point) => point.value !== null)
+    .slice(-CHART_BARS)
+    .map((point) => ({
+      date: point.date,
+      value: Math.round(point.value * 100) / 100,
+    }));
+
+  const priceSeries = stockData
+    .slice(-CHART_BARS)
+    .map((bar) => ({ date: bar.date, close: bar.close }));
+
+  const response: PredictionResponse = {
+    symbol: stockSymbol,
+    prediction: result.prediction,
+    confidence: result.confidence,
+    accuracy: result.accuracy ?? accuracyByHorizon[timeframe],
+    accuracyByHorizon,
+    timeframe,
+    features,
+    regime: detectRegime(stockData, windows),
+    explanation: result.explanation,
+    probabilities: result.probabilities,
+    ensemble: result.ensemble,
+    rsiSeries,
+    priceSeries,
+    priceTargets: forecastPriceTargets(stockData, timeframe, targetMethod),
+    strategy: members
+      ? { id: `ensemble:${method}`, name: "ensemble", version: 1 }
+      : {
+          id: strategyId(selectedStrategy),
+          name: selectedStrategy.name,
+          version: selectedStrategy.version,
+        },
+    dataSource: source,
   };
+  predictions.set(key, response);
+  return response;
 }
 
 export const handlePredict: RequestHandler = async (req, res) => {
   try {
-    const { symbol, timeframe = "tomorrow" } = req.body;
-
-    if (!symbol) {
-      return res.status(400).json({ error: "Stock symbol is required" });
-    }
-
-    if (!["today", "tomorrow"].includes(timeframe)) {
-      return res
-        .status(400)
-        .json({ error: "Timeframe must be 'today' or 'tomorrow'" });
-    }
-
-    const stockSymbol = symbol.toUpperCase();
+    const body = parseRequest(predictRequestSchema, req.body, res);
+    if (!body) return;
 
-    // Fetch stock data
-    const stockData = await fetchStockData(stockSymbol);
+    const options = resolveOptions(body);
+    if ("issue" in options) return sendInvalid(res, [options.issue]);
 
-    if (stockData.length === 0) {
+    const response = await predictSymbol(body.symbol.toUpperCase(), options);
+    if (!response) {
       return res.status(404).json({ error: "Stock data not found" });
     }
 
-    // Analyze and make prediction
-    const features = analyzeStock(stockData);
-    const { prediction, confidence } = makePrediction(stockData, timeframe);
+    sendValidated(res, predictionResponseSchema, response);
+  } catch (error) {
+    if (sendMarketDataError(res, error)) return;
+    console.error("Prediction error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
 
-    // Simulate model accuracy (in real app, this would be calculated from backtesting)
-    let accuracy = 75 + Math.random() * 15; // 75-90% range
+/**
+ * Predict several symbols with the same options. Symbols are fetched a few
+ * at a time, as many as the provider allows, and a symbol that fails is
+ * reported in `errors` without failing the rest.
+ */
+export const handlePredictBatch: RequestHandler = async (req, res) => {
+  try {
+    const body = parseRequest(batchPredictRequestSchema, req.body, res);
+    if (!body) return;
 
-    // Today predictions are typically less accurate
-    if (timeframe === "today") {
-      accuracy *= 0.85; // Reduce accuracy for same-day predictions
-    }
+    const options = resolveOptions(body);
+    if ("issue" in options) return sendInvalid(res, [options.issue]);
 
-    const response: PredictionResponse = {
-      symbol: stockSymbol,
-      prediction,
-      confidence,
-      accuracy: Math.round(accuracy * 100) / 100,
-      timeframe,
-      features,
-    };
+    const symbols = Array.from(
+      new Set(body.symbols.map((symbol) => symbol.toUpperCase())),
+    );
+    const concurrency =
+      resolveProvider(options.provider).maxConcurrency ??
+      DEFAULT_BATCH_CONCURRENCY;
+    const outcomes = await mapWithConcurrency(
+      symbols,
+      concurrency,
+      async (symbol) => {
+        try {
+          const result = await predictSymbol(symbol, options);
+          return result ?? { symbol, error: "Stock data not found" };
+        } catch (error) {
+          if (
+            error instanceof DataFileError ||
+            error instanceof RateLimitError
+          ) {
+            return { symbol, error: error.message };
+          }
+          console.error(`Batch prediction error for ${symbol}:`, error);
+          return { symbol, error: "Internal server error" };
+        }
+      },
+    );
 
-    res.json(response);
+    sendValidated(res, batchPredictionResponseSchema, {
+      timeframe: options.timeframe,
+      results: outcomes.filter(
+        (outcome): outcome is PredictionResponse => !("error" in outcome),
+      ),
+      errors: outcomes.filter(
+        (outcome): outcome is { symbol: string; error: string } =>
+          "error" in outcome,
+      ),
+    });
   } catch (error) {
-    console.error("Prediction error:", error);
+    console.error("Batch prediction error:", error);
     res.status(500).json({ error: "Internal server error" });
   }
 };
@@ -0,0 +1,55 @@
+import { RequestHandler } from "express";
+import {
+  simulationRequestSchema,
+  simulationResponseSchema,
+} from "../../shared/api";
+import { fetchStockData } from "../lib/marketData";
+import {
+  DEFAULT_SIMULATION_OPTIONS,
+  runSimulation,
+  SimulationRangeError,
+} from "../lib/simulation";
+import {
+  parseRequest,
+  sendInvalid,
+  sendMarketDataError,
+  sendValidated,
+  unknownProvider,
+} from "../lib/validation";
+
+export const handleSimulate: RequestHandler = async (req, res) => {
+  try {
+    const body = parseRequest(simulationRequestSchema, req.body, res);
+    if (!body) return;
+    const issue = unknownProvider(body.provider);
+    if (issue) return sendInvalid(res, [issue]);
+
+    const stockSymbol = body.symbol.toUpperCase();
+    const { bars, source } = await fetchStockData(stockSymbol, body.provider);
+
+    if (bars.length === 0) {
+      return res.status(404).json({ error: "Stock data not found" });
+    }
+
+    const result = runSimulation(stockSymbol, bars, {
+      method: body.method ?? DEFAULT_SIMULATION_OPTIONS.method,
+      days: body.days ?? DEFAULT_SIMULATION_OPTIONS.days,
+      paths: body.paths ?? DEFAULT_SIMULATION_OPTIONS.paths,
+      target: body.target,
+      stop: body.stop,
+      seed: body.seed,
+    });
+
+    sendValidated(res, simulationResponseSchema, {
+      ...result,
+      dataSource: source,
+    });
+  } catch (error) {
+    if (error instanceof SimulationRangeError) {
+      return res.status(422).json({ error: error.message });
+    }
+    if (sendMarketDataError(res, error)) return;
+    console.error("Simulation error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
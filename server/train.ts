@@ -0,0 +1,70 @@
+/**
+ * Train the logistic strategy and save it where the server loads models from.
+ *
+ *   pnpm train [SYMBOL ...] [--provider=csv]
+ *
+ * Each run saves the next version, e.g. models/logistic@2.json; restart the
+ * server to serve it as the `logistic` strategy.
+ */
+import "dotenv/config";
+import { mkdirSync, writeFileSync } from "fs";
+import path from "path";
+import { TIMEFRAMES } from "./lib/horizons";
+import { fetchStockData } from "./lib/marketData";
+import { trainModel } from "./lib/ml/train";
+import { StockData } from "./lib/providers";
+import {
+  DEFAULT_MODELS_DIR,
+  listStrategies,
+  strategyId,
+} from "./lib/strategies";
+
+const DEFAULT_SYMBOLS = ["AAPL", "MSFT", "GOOGL", "AMZN", "TSLA", "NVDA"];
+const MODEL_NAME = "logistic";
+
+async function main() {
+  const args = process.argv.slice(2);
+  const provider = args
+    .find((arg) => arg.startsWith("--provider="))
+    ?.slice("--provider=".length);
+  const requested = args
+    .filter((arg) => !arg.startsWith("--"))
+    .map((symbol) => symbol.toUpperCase());
+  const symbols = requested.length > 0 ? requested : DEFAULT_SYMBOLS;
+
+  const histories: Record<string, StockData[]> = {};
+  for (const symbol of symbols) {
+    const { bars, source } = await fetchStockData(symbol, provider);
+    if (source.synthetic) {
+      console.warn(`${symbol}: using synthetic data, the model will be too`);
+    }
+    console.log(`${symbol}: ${bars.length} bars from ${source.name}`);
+    histories[symbol] = bars;
+  }
+
+  const previous = listStrategies()
+    .filter((strategy) => strategy.name === MODEL_NAME)
+    .map((strategy) => strategy.version);
+  const model = trainModel(histories, {
+    name: MODEL_NAME,
+    version: Math.max(0, ...previous) + 1,
+  });
+
+  for (const timeframe of TIMEFRAMES) {
+    const { validation, temperature } = model.timeframes[timeframe];
+    console.log(
+      `${timeframe}: ${validation.accuracy}% accuracy, log loss ${validation.logLoss} on ${validation.samples} held-out samples (temperature ${temperature})`,
+    );
+  }
+
+  const directory = process.env.MODELS_DIR ?? DEFAULT_MODELS_DIR;
+  mkdirSync(directory, { recursive: true });
+  const file = path.join(directory, `${strategyId(model)}.json`);
+  writeFileSync(file, JSON.stringify(model, null, 2));
+  console.log(`Saved ${file}`);
+}
+
+main().catch((error) => {
+  console.error("Training failed:", error);
+  process.exit(1);
+});
@@ -2,11 +2,850 @@
  * Shared code between client and server
  * Useful to share types between client and server
  * and/or small pure JS functions that can be used on both client and server
+ *
+ * Every API contract is a zod schema; the TypeScript types are inferred from
+ * them. The server validates requests and responses with the schemas, so
+ * the types and the checks cannot drift apart.
  */
+import { z } from "zod";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const dateSchema = z
+  .string()
+  .regex(DATE_PATTERN, "must be a date in YYYY-MM-DD format");
+
+// Characters a ticker may hold, e.g. BRK.B, ^GSPC or EURUSD=X
+const SYMBOL_CHARACTERS = /^[A-Z0-9.^=-]*$/i;
+
+const symbolSchema = z
+  .string({ required_error: "Stock symbol is required" })
+  .trim()
+  .min(1, "Stock symbol is required")
+  .max(15, "must be at most 15 characters")
+  .regex(SYMBOL_CHARACTERS, "must be a ticker such as AAPL or BRK.B");
 
 /**
- * Example response type for /api/demo
+ * True when `value` is a well-formed ticker as it stands. Symbols name
+ * files on the server, so anything else must be turned away.
  */
-export interface DemoResponse {
-  message: string;
+export function isSymbol(value: string) {
+  const result = symbolSchema.safeParse(value);
+  return result.success && result.data === value;
 }
+
+const positiveInteger = z.number().int().positive();
+
+/**
+ * One field that failed validation, as `path.to.field` and a message
+ */
+export const fieldIssueSchema = z.object({
+  field: z.string(),
+  message: z.string(),
+});
+export type FieldIssue = z.infer<typeof fieldIssueSchema>;
+
+/**
+ * Body of every 4xx/5xx response. Validation failures list each field.
+ */
+export const errorResponseSchema = z.object({
+  error: z.string(),
+  issues: z.array(fieldIssueSchema).optional(),
+});
+export type ErrorResponse = z.infer<typeof errorResponseSchema>;
+
+/**
+ * Body of a 422 for unusable market data. A malformed data file is named,
+ * with each bad row.
+ */
+export const dataErrorResponseSchema = z.object({
+  error: z.string(),
+  file: z.string().optional(),
+  issues: z
+    .array(z.object({ row: z.number(), message: z.string() }))
+    .optional(),
+});
+export type DataErrorResponse = z.infer<typeof dataErrorResponseSchema>;
+
+/**
+ * Body of a 429: the market data provider's quota is spent. Nothing is
+ * fetched from it for `retryAfter` seconds.
+ */
+export const rateLimitedResponseSchema = z.object({
+  error: z.string(),
+  retryAfter: z.number(),
+});
+export type RateLimitedResponse = z.infer<typeof rateLimitedResponseSchema>;
+
+/**
+ * Response type for /api/ping
+ */
+export const pingResponseSchema = z.object({
+  message: z.string(),
+});
+export type PingResponse = z.infer<typeof pingResponseSchema>;
+
+/**
+ * Example response type for /api/demo
+ */
+export const demoResponseSchema = z.object({
+  message: z.string(),
+});
+export type DemoResponse = z.infer<typeof demoResponseSchema>;
+
+/**
+ * One daily OHLCV bar; series are always ordered oldest first
+ */
+export const stockDataSchema = z.object({
+  /** Trading date as YYYY-MM-DD */
+  date: z.string(),
+  open: z.number(),
+  high: z.number(),
+  low: z.number(),
+  close: z.number(),
+  volume: z.number(),
+});
+export type StockData = z.infer<typeof stockDataSchema>;
+
+export const tradeSignalSchema = z.enum(["BUY", "SELL", "HOLD"]);
+export type TradeSignal = z.infer<typeof tradeSignalSchema>;
+
+/**
+ * Prediction horizon: the next session ("today", scored open to close), the
+ * next close ("tomorrow"), or 1 week, 2 weeks or 1 month of trading days
+ */
+export const timeframeSchema = z.enum(["today", "tomorrow", "1w", "2w", "1m"]);
+export type Timeframe = z.infer<typeof timeframeSchema>;
+
+/** Where a response's bars came from, and how current they are */
+export const dataSourceSchema = z.object({
+  provider: z.string(),
+  name: z.string(),
+  /** True when the provider generated the bars instead of a market */
+  synthetic: z.boolean(),
+  /** When the bars were fetched from the provider, as an ISO timestamp */
+  fetchedAt: z.string(),
+  /** Date of the most recent bar, null when there are none */
+  lastBarDate: z.string().nullable(),
+  /** True when the provider failed and bars fetched earlier were served */
+  stale: z.boolean(),
+  /** Set when the requested provider failed and this one stood in */
+  fallback: z
+    .object({
+      /** Id of the provider that failed */
+      requested: z.string(),
+      reason: z.string(),
+    })
+    .optional(),
+});
+export type DataSource = z.infer<typeof dataSourceSchema>;
+
+/**
+ * Request body for POST /api/backtest
+ */
+export const backtestRequestSchema = z
+  .object({
+    symbol: symbolSchema,
+    timeframe: timeframeSchema.optional(),
+    provider: z.string().optional(),
+    /** Strategy as `name` (latest version) or `name@version` */
+    strategy: z.string().optional(),
+    /** First and last bar (YYYY-MM-DD) on which signals may be acted on */
+    from: dateSchema.optional(),
+    to: dateSchema.optional(),
+    initialCapital: z.number().positive().optional(),
+    /** Commission as a fraction of traded value, e.g. 0.001 for 0.1% */
+    commissionRate: z.number().nonnegative().optional(),
+    /** Flat commission charged on every fill */
+    commissionPerTrade: z.number().nonnegative().optional(),
+    /** Slippage against the fill price, in basis points */
+    slippageBps: z.number().nonnegative().optional(),
+    positionSizing: z
+      .object({
+        /** "percent-equity": value is % of equity; "fixed-amount": cash per trade */
+        method: z.enum(["percent-equity", "fixed-amount"]),
+        value: z.number().positive(),
+      })
+      .refine(
+        (sizing) => sizing.method !== "percent-equity" || sizing.value <= 100,
+        {
+          message: "cannot exceed 100 percent of equity",
+          path: ["value"],
+        },
+      )
+      .optional(),
+    /** Open short positions on SELL signals instead of only exiting longs */
+    allowShort: z.boolean().optional(),
+  })
+  .refine((body) => !body.from || !body.to || body.from <= body.to, {
+    message: "must not be after 'to'",
+    path: ["from"],
+  });
+export type BacktestRequest = z.infer<typeof backtestRequestSchema>;
+
+export const backtestTradeSchema = z.object({
+  side: z.enum(["LONG", "SHORT"]),
+  entryDate: z.string(),
+  entryPrice: z.number(),
+  exitDate: z.string(),
+  exitPrice: z.number(),
+  quantity: z.number(),
+  /** Net of commissions */
+  pnl: z.number(),
+  returnPct: z.number(),
+});
+export type BacktestTrade = z.infer<typeof backtestTradeSchema>;
+
+/**
+ * Response type for POST /api/backtest
+ */
+export const backtestResponseSchema = z.object({
+  symbol: z.string(),
+  /** Strategy that produced the signals, as `name@version` */
+  strategy: z.string(),
+  from: z.string(),
+  to: z.string(),
+  initialCapital: z.number(),
+  finalEquity: z.number(),
+  /** Percentages, except the Sharpe and Sortino ratios */
+  metrics: z.object({
+    totalReturn: z.number(),
+    cagr: z.number(),
+    sharpe: z.number(),
+    sortino: z.number(),
+    maxDrawdown: z.number(),
+    winRate: z.number(),
+    tradeCount: z.number(),
+    exposure: z.number(),
+  }),
+  equityCurve: z.array(z.object({ date: z.string(), equity: z.number() })),
+  trades: z.array(backtestTradeSchema),
+  /** Set when the signals may include bars the model was trained on */
+  inSample: z.boolean().optional(),
+  dataSource: dataSourceSchema,
+});
+export type BacktestResponse = z.infer<typeof backtestResponseSchema>;
+
+/**
+ * Hit rate of a set of signals, in percent, with a 95% Wilson interval
+ */
+export const accuracyReportSchema = z.object({
+  hitRate: z.number(),
+  sampleSize: z.number(),
+  confidenceInterval: z.object({
+    lower: z.number(),
+    upper: z.number(),
+  }),
+  /** Set when the signals may include bars the model was trained on */
+  inSample: z.boolean().optional(),
+});
+export type AccuracyReport = z.infer<typeof accuracyReportSchema>;
+
+/**
+ * Request body for POST /api/backtest/walk-forward
+ */
+export const walkForwardRequestSchema = z.object({
+  symbol: symbolSchema,
+  timeframe: timeframeSchema.optional(),
+  provider: z.string().optional(),
+  /** Strategy as `name` (latest version) or `name@version` */
+  strategy: z.string().optional(),
+  /** Signal bars in each training window */
+  trainSize: positiveInteger.optional(),
+  /** Signal bars in each out-of-sample window */
+  testSize: positiveInteger.optional(),
+  /** Keep the training window anchored at the start instead of rolling it */
+  anchored: z.boolean().optional(),
+});
+export type WalkForwardRequest = z.infer<typeof walkForwardRequestSchema>;
+
+const dateRangeSchema = z.object({ from: z.string(), to: z.string() });
+
+export const walkForwardFoldSchema = z.object({
+  fold: z.number(),
+  train: accuracyReportSchema.merge(dateRangeSchema),
+  test: accuracyReportSchema.merge(dateRangeSchema).extend({
+    signals: z.record(tradeSignalSchema, z.number()),
+    /** Hit rate of always predicting BUY over the same bars */
+    baseline: z.number(),
+  }),
+});
+export type WalkForwardFold = z.infer<typeof walkForwardFoldSchema>;
+
+/**
+ * Response type for POST /api/backtest/walk-forward
+ */
+export const walkForwardResponseSchema = z.object({
+  symbol: z.string(),
+  strategy: z.string(),
+  timeframe: timeframeSchema,
+  anchored: z.boolean(),
+  folds: z.array(walkForwardFoldSchema),
+  /** All out-of-sample signals pooled across folds */
+  outOfSample: accuracyReportSchema,
+  /** Average in-sample minus pooled out-of-sample hit rate */
+  degradation: z.number(),
+  dataSource: dataSourceSchema,
+});
+export type WalkForwardResponse = z.infer<typeof walkForwardResponseSchema>;
+
+/**
+ * One strategy rule that fired, with the feature values it was checked on
+ */
+export const explanationRuleSchema = z.object({
+  id: z.string(),
+  description: z.string(),
+  /** Points the rule added to the raw score */
+  contribution: z.number(),
+  /** Regime weight already applied to the contribution, when not 1 */
+  weight: z.number().optional(),
+  conditions: z.array(
+    z.object({
+      feature: z.string(),
+      actual: z.union([z.number(), z.string()]),
+      /** The threshold the value was compared against, e.g. "< 30" */
+      expected: z.string(),
+    }),
+  ),
+});
+export type ExplanationRule = z.infer<typeof explanationRuleSchema>;
+
+/**
+ * A multiplier applied to the score or to the confidence
+ */
+export const explanationAdjustmentSchema = z.object({
+  id: z.string(),
+  description: z.string(),
+  target: z.enum(["score", "confidence"]),
+  multiplier: z.number(),
+});
+export type ExplanationAdjustment = z.infer<typeof explanationAdjustmentSchema>;
+
+/**
+ * Itemized reasoning behind a BUY/SELL/HOLD signal
+ */
+export const predictionExplanationSchema = z.object({
+  rules: z.array(explanationRuleSchema),
+  adjustments: z.array(explanationAdjustmentSchema),
+  rawScore: z.number(),
+  /** Score after every adjustment, compared with ±scoreThreshold */
+  finalScore: z.number(),
+  scoreThreshold: z.number(),
+  /** Minimum confidence, in percent, needed for BUY or SELL */
+  confidenceThreshold: z.number(),
+});
+export type PredictionExplanation = z.infer<typeof predictionExplanationSchema>;
+
+/**
+ * Calibrated class probabilities from a trained model strategy, as
+ * percentages that sum to 100
+ */
+export const signalProbabilitiesSchema = z.object({
+  BUY: z.number(),
+  SELL: z.number(),
+  HOLD: z.number(),
+});
+export type SignalProbabilities = z.infer<typeof signalProbabilitiesSchema>;
+
+export const ensembleMethodSchema = z.enum([
+  "majority",
+  "weighted",
+  "stacking",
+]);
+export type EnsembleMethod = z.infer<typeof ensembleMethodSchema>;
+
+/** One member strategy's vote in an ensemble prediction */
+export const ensembleVoteSchema = z.object({
+  /** `name@version` */
+  strategy: z.string(),
+  prediction: tradeSignalSchema,
+  confidence: z.number(),
+  /** Percent of the ensemble's total influence held by this member */
+  weight: z.number(),
+});
+export type EnsembleVote = z.infer<typeof ensembleVoteSchema>;
+
+/**
+ * How an ensemble prediction was reached. `majority` counts one vote per
+ * member, `weighted` weights each vote by the member's past hit rate on the
+ * symbol, and `stacking` fits a classifier on the members' past votes.
+ */
+export const ensembleSummarySchema = z.object({
+  method: ensembleMethodSchema,
+  votes: z.array(ensembleVoteSchema),
+  /** Percent of members voting for the ensemble's prediction */
+  agreement: z.number(),
+});
+export type EnsembleSummary = z.infer<typeof ensembleSummarySchema>;
+
+export const priceTargetMethodSchema = z.enum(["historical", "atr"]);
+export type PriceTargetMethod = z.infer<typeof priceTargetMethodSchema>;
+
+const percentilesSchema = z.object({
+  p5: z.number(),
+  p25: z.number(),
+  p75: z.number(),
+  p95: z.number(),
+});
+
+/**
+ * Expected price range at the end of a prediction's horizon. Prices are
+ * percentiles of the forecast distribution, measured from `basePrice`.
+ */
+export const priceTargetsSchema = z.object({
+  /** "historical" unless too little history forced an "atr" fallback */
+  method: priceTargetMethodSchema,
+  /** Last close the range is measured from */
+  basePrice: z.number(),
+  /** Bars between the last close and the forecast */
+  horizonBars: z.number(),
+  median: z.number(),
+  percentiles: percentilesSchema,
+  /** Past moves the percentiles were drawn from; 0 for "atr" */
+  sampleSize: z.number(),
+});
+export type PriceTargets = z.infer<typeof priceTargetsSchema>;
+
+export const trendRegimeSchema = z.enum([
+  "trending-up",
+  "trending-down",
+  "ranging",
+]);
+export type TrendRegime = z.infer<typeof trendRegimeSchema>;
+
+export const volatilityRegimeSchema = z.enum(["low", "normal", "high"]);
+export type VolatilityRegime = z.infer<typeof volatilityRegimeSchema>;
+
+/**
+ * The market a symbol is currently in. Rule strategies can adapt their
+ * weights and thresholds to it.
+ */
+export const regimeReportSchema = z.object({
+  trend: trendRegimeSchema,
+  volatility: volatilityRegimeSchema,
+  /** Trend strength at the last bar */
+  adx: z.number(),
+  /** Change in the slow SMA over the fast SMA's window, in percent */
+  slope: z.number(),
+  /** Rank of current realized volatility among its past values, 0-100 */
+  volatilityPercentile: z.number(),
+});
+export type RegimeReport = z.infer<typeof regimeReportSchema>;
+
+const rsiEventSchema = z.enum(["BULLISH", "BEARISH", "NONE"]);
+
+/**
+ * Indicator readings at the last bar that strategies score
+ */
+export const stockFeaturesSchema = z.object({
+  rsi: z.number(),
+  trend: z.enum(["BULLISH", "BEARISH"]),
+  /** Close against the Bollinger Bands: above, inside or below */
+  volatility: z.enum(["HIGH", "NORMAL", "LOW"]),
+  volume_trend: z.enum(["INCREASING", "DECREASING"]),
+  rsi_crossover: rsiEventSchema,
+  rsi_divergence: rsiEventSchema,
+  macd_histogram: z.number(),
+  adx: z.number(),
+});
+export type StockFeatures = z.infer<typeof stockFeaturesSchema>;
+
+/** Most symbols one batch prediction may ask for */
+export const MAX_BATCH_SYMBOLS = 25;
+
+/**
+ * Options shared by single and batch predictions. `ensemble` switches from
+ * one strategy to several voting; without `strategies` every strategy's
+ * latest version votes.
+ */
+const predictOptionsSchema = z.object({
+  timeframe: timeframeSchema.optional(),
+  provider: z.string().optional(),
+  /** Strategy as `name` (latest version) or `name@version` */
+  strategy: z.string().optional(),
+  ensemble: z
+    .object({
+      method: ensembleMethodSchema.optional(),
+      strategies: z.array(z.string()).optional(),
+    })
+    .optional(),
+  targetMethod: priceTargetMethodSchema.optional(),
+});
+
+/**
+ * Request body for POST /api/predict
+ */
+export const predictRequestSchema = predictOptionsSchema.extend({
+  symbol: symbolSchema,
+});
+export type PredictRequest = z.infer<typeof predictRequestSchema>;
+
+/**
+ * Response type for POST /api/predict
+ */
+export const predictionResponseSchema = z.object({
+  symbol: z.string(),
+  prediction: tradeSignalSchema,
+  confidence: z.number(),
+  accuracy: accuracyReportSchema,
+  /** The single strategy's backtested accuracy at every horizon it serves */
+  accuracyByHorizon: z
+    .record(timeframeSchema, accuracyReportSchema.optional())
+    .optional(),
+  timeframe: timeframeSchema,
+  features: stockFeaturesSchema,
+  /** Reported for every strategy; only some adapt to it */
+  regime: regimeReportSchema,
+  explanation: predictionExplanationSchema,
+  /** Present when the strategy is a trained model or a stacked ensemble */
+  probabilities: signalProbabilitiesSchema.optional(),
+  /** Present when several strategies voted */
+  ensemble: ensembleSummarySchema.optional(),
+  strategy: z.object({
+    /** `name@version` */
+    id: z.string(),
+    name: z.string(),
+    version: z.number(),
+  }),
+  /** RSI for the most recent bars, computed as the strategy does */
+  rsiSeries: z.array(z.object({ date: z.string(), value: z.number() })),
+  /** Closes for the same bars, leading into the price targets */
+  priceSeries: z.array(z.object({ date: z.string(), close: z.number() })),
+  priceTargets: priceTargetsSchema,
+  dataSource: dataSourceSchema,
+});
+export type PredictionResponse = z.infer<typeof predictionResponseSchema>;
+
+/**
+ * Request body for POST /api/predict/batch. Symbols are upper-cased and
+ * deduplicated before predicting.
+ */
+export const batchPredictRequestSchema = predictOptionsSchema.extend({
+  symbols: z
+    .array(symbolSchema, {
+      required_error: "symbols must list at least one stock symbol",
+    })
+    .min(1, "symbols must list at least one stock symbol")
+    .max(
+      MAX_BATCH_SYMBOLS,
+      `A batch can hold at most ${MAX_BATCH_SYMBOLS} symbols`,
+    ),
+});
+export type BatchPredictRequest = z.infer<typeof batchPredictRequestSchema>;
+
+/**
+ * Response type for POST /api/predict/batch
+ */
+export const batchPredictionResponseSchema = z.object({
+  timeframe: timeframeSchema,
+  /** Successful predictions, in request order */
+  results: z.array(predictionResponseSchema),
+  /** Symbols that could not be predicted, with the reason */
+  errors: z.array(z.object({ symbol: z.string(), error: z.string() })),
+});
+export type BatchPredictionResponse = z.infer<
+  typeof batchPredictionResponseSchema
+>;
+
+export const simulationMethodSchema = z.enum(["bootstrap", "gbm"]);
+export type SimulationMethod = z.infer<typeof simulationMethodSchema>;
+
+export const MAX_SIMULATION_PATHS = 20000;
+export const MAX_SIMULATION_DAYS = 252;
+
+/**
+ * Monte Carlo simulation of future prices. "bootstrap" resamples the
+ * symbol's past daily log returns; "gbm" draws them from a normal
+ * distribution with the same mean and volatility.
+ */
+export const simulationRequestSchema = z.object({
+  symbol: symbolSchema,
+  provider: z.string().optional(),
+  method: simulationMethodSchema.optional(),
+  /** Trading days each path runs for */
+  days: positiveInteger.max(MAX_SIMULATION_DAYS).optional(),
+  paths: positiveInteger.max(MAX_SIMULATION_PATHS).optional(),
+  /** Take-profit level; reported as the chance any path reaches it */
+  target: z.number().positive().optional(),
+  /** Stop-loss level; reported as the chance any path reaches it */
+  stop: z.number().positive().optional(),
+  /** Repeats the same paths; defaults to the symbol and last bar date */
+  seed: z.union([z.string(), z.number()]).optional(),
+});
+export type SimulationRequest = z.infer<typeof simulationRequestSchema>;
+
+export const simulationLevelSchema = z.object({
+  price: z.number(),
+  /** Share of paths that touch the level at some point, in percent */
+  probability: z.number(),
+  /** Median trading days until the first touch, on the paths that do */
+  medianDays: z.number().nullable(),
+});
+export type SimulationLevel = z.infer<typeof simulationLevelSchema>;
+
+export const simulationResponseSchema = z.object({
+  symbol: z.string(),
+  method: simulationMethodSchema,
+  days: z.number(),
+  paths: z.number(),
+  /** Last close every path starts from */
+  startPrice: z.number(),
+  /** Past daily returns the paths were built from */
+  sampleSize: z.number(),
+  terminal: z.object({
+    mean: z.number(),
+    median: z.number(),
+    percentiles: percentilesSchema,
+    /** Share of paths ending above the start price, in percent */
+    probabilityUp: z.number(),
+    histogram: z.array(
+      z.object({ from: z.number(), to: z.number(), count: z.number() }),
+    ),
+  }),
+  target: simulationLevelSchema.optional(),
+  stop: simulationLevelSchema.optional(),
+  /** Share of paths reaching the target before the stop, in percent */
+  targetFirst: z.number().optional(),
+  /** Largest peak-to-trough fall along each path, in percent */
+  drawdown: z.object({
+    expected: z.number(),
+    median: z.number(),
+    p95: z.number(),
+  }),
+  dataSource: dataSourceSchema,
+});
+export type SimulationResponse = z.infer<typeof simulationResponseSchema>;
+
+/**
+ * Bar size for history and indicator requests. Weekly and monthly bars are
+ * built from daily ones and dated by their last trading day.
+ */
+export const barIntervalSchema = z.enum(["1d", "1w", "1mo"]);
+export type BarInterval = z.infer<typeof barIntervalSchema>;
+
+/**
+ * Path parameters of the history and indicator endpoints
+ */
+export const symbolParamsSchema = z.object({ symbol: symbolSchema });
+export type SymbolParams = z.infer<typeof symbolParamsSchema>;
+
+/**
+ * Query string of the history and indicator endpoints. `from` and `to` are
+ * inclusive; `interval` defaults to "1d".
+ */
+export const historyQuerySchema = z
+  .object({
+    from: dateSchema.optional(),
+    to: dateSchema.optional(),
+    interval: barIntervalSchema.optional(),
+    provider: z.string().optional(),
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: "must not be after 'to'",
+    path: ["from"],
+  });
+export type HistoryQuery = z.infer<typeof historyQuerySchema>;
+
+/**
+ * Response of `GET /api/history/:symbol?from=&to=&interval=`
+ */
+export const historyResponseSchema = z.object({
+  symbol: z.string(),
+  interval: barIntervalSchema,
+  bars: z.array(stockDataSchema),
+  dataSource: dataSourceSchema,
+});
+export type HistoryResponse = z.infer<typeof historyResponseSchema>;
+
+export const indicatorNameSchema = z.enum([
+  "sma",
+  "ema",
+  "rsi",
+  "macd",
+  "bollinger",
+  "atr",
+  "stochastic",
+  "williamsR",
+  "adx",
+  "obv",
+  "vwap",
+  "cci",
+  "ichimoku",
+]);
+export type IndicatorName = z.infer<typeof indicatorNameSchema>;
+
+/**
+ * Query string of `GET /api/indicators/:symbol`. `names` is a
+ * comma-separated list; parameters follow a name after colons, in the order
+ * the response's `params` lists them, e.g. `rsi:21,macd:12:26:9`.
+ */
+export const indicatorsQuerySchema = historyQuerySchema.and(
+  z.object({
+    names: z
+      .string({ required_error: "names is required, e.g. names=rsi,macd" })
+      .trim()
+      .min(1, "names is required, e.g. names=rsi,macd"),
+  }),
+);
+export type IndicatorsQuery = z.infer<typeof indicatorsQuerySchema>;
+
+/**
+ * One indicator's output. Each line is aligned index-for-index with the
+ * response's `dates`, with null where there is not yet enough history.
+ */
+export const indicatorSeriesSchema = z.object({
+  name: indicatorNameSchema,
+  /** Parameters used, defaults filled in, e.g. { period: 14 } */
+  params: z.record(z.string(), z.number()),
+  /** Output lines by name, e.g. macd, signal and histogram for "macd" */
+  lines: z.record(z.string(), z.array(z.number().nullable())),
+});
+export type IndicatorSeries = z.infer<typeof indicatorSeriesSchema>;
+
+/**
+ * Response of `GET /api/indicators/:symbol?names=&from=&to=&interval=`.
+ * Indicators are computed over all available history, so the first dates
+ * in range already have values.
+ */
+export const indicatorsResponseSchema = z.object({
+  symbol: z.string(),
+  interval: barIntervalSchema,
+  dates: z.array(z.string()),
+  indicators: z.array(indicatorSeriesSchema),
+  dataSource: dataSourceSchema,
+});
+export type IndicatorsResponse = z.infer<typeof indicatorsResponseSchema>;
+
+export const cacheNamespaceSchema = z.enum([
+  "daily",
+  "intraday",
+  "predictions",
+]);
+export type CacheNamespace = z.infer<typeof cacheNamespaceSchema>;
+
+/** Counters of one cache namespace since the server started */
+export const cacheStatsSchema = z.object({
+  namespace: cacheNamespaceSchema,
+  ttlMs: z.number(),
+  /** How long past its TTL an entry may be served while it is refreshed */
+  staleMs: z.number(),
+  maxEntries: z.number(),
+  size: z.number(),
+  hits: z.number(),
+  /** Entries served past their TTL while a refresh ran */
+  staleHits: z.number(),
+  /** Lookups that found nothing usable */
+  misses: z.number(),
+  /** Fresh and stale hits as a percent of lookups */
+  hitRate: z.number(),
+  /** Entries dropped to make room for newer ones */
+  evictions: z.number(),
+  /** Entries dropped for being too old to serve even stale */
+  expirations: z.number(),
+});
+export type CacheStats = z.infer<typeof cacheStatsSchema>;
+
+/**
+ * Response of GET /api/admin/cache
+ */
+export const cacheStatsResponseSchema = z.object({
+  namespaces: z.array(cacheStatsSchema),
+});
+export type CacheStatsResponse = z.infer<typeof cacheStatsResponseSchema>;
+
+/**
+ * Query string of DELETE /api/admin/cache. Without `namespace` every
+ * namespace is cleared; with `symbol` only that symbol's entries are.
+ */
+export const cacheInvalidateQuerySchema = z.object({
+  namespace: cacheNamespaceSchema.optional(),
+  symbol: symbolSchema.optional(),
+});
+export type CacheInvalidateQuery = z.infer<typeof cacheInvalidateQuerySchema>;
+
+/**
+ * Response of DELETE /api/admin/cache
+ */
+export const cacheInvalidateResponseSchema = cacheStatsResponseSchema.extend({
+  /** Entries dropped */
+  removed: z.number(),
+  /** Stored daily bar series that will be topped up on their next load */
+  expired: z.number(),
+});
+export type CacheInvalidateResponse = z.infer<
+  typeof cacheInvalidateResponseSchema
+>;
+
+// JSON Schema objects are passed through as-is
+const jsonSchemaSchema = z.record(z.string(), z.unknown());
+
+const jsonContentSchema = z.object({
+  "application/json": z.object({
+    schema: jsonSchemaSchema,
+    example: z.unknown().optional(),
+  }),
+});
+
+export const openApiParameterSchema = z.object({
+  name: z.string(),
+  in: z.enum(["path", "query"]),
+  required: z.boolean(),
+  schema: jsonSchemaSchema,
+  example: z.string().optional(),
+});
+export type OpenApiParameter = z.infer<typeof openApiParameterSchema>;
+
+export const openApiOperationSchema = z.object({
+  operationId: z.string(),
+  tags: z.array(z.string()),
+  summary: z.string(),
+  description: z.string().optional(),
+  parameters: z.array(openApiParameterSchema).optional(),
+  requestBody: z
+    .object({ required: z.boolean(), content: jsonContentSchema })
+    .optional(),
+  /** Security schemes by name, any one of which admits a request */
+  security: z.array(z.record(z.string(), z.array(z.string()))).optional(),
+  /** By HTTP status */
+  responses: z.record(
+    z.string(),
+    z.object({ description: z.string(), content: jsonContentSchema }),
+  ),
+});
+export type OpenApiOperation = z.infer<typeof openApiOperationSchema>;
+
+/**
+ * Response of GET /api/openapi.json: the parts of an OpenAPI 3.1 document
+ * this server emits, generated from the routes and the schemas above
+ */
+export const openApiDocumentSchema = z.object({
+  openapi: z.string(),
+  info: z.object({
+    title: z.string(),
+    version: z.string(),
+    description: z.string(),
+  }),
+  /** Operations by path, then by lower-case HTTP method */
+  paths: z.record(
+    z.string(),
+    z.object({
+      get: openApiOperationSchema.optional(),
+      post: openApiOperationSchema.optional(),
+      delete: openApiOperationSchema.optional(),
+    }),
+  ),
+  components: z.object({
+    schemas: z.record(z.string(), jsonSchemaSchema),
+    securitySchemes: z
+      .record(
+        z.string(),
+        z.object({
+          type: z.enum(["http"]),
+          scheme: z.string(),
+          description: z.string().optional(),
+        }),
+      )
+      .optional(),
+  }),
+});
+export type OpenApiDocument = z.infer<typeof openApiDocumentSchema>;
@@ -0,0 +1,134 @@
+import { describe, it, expect } from "vitest";
+import { StockData } from "./api";
+import {
+  adx,
+  atr,
+  bollingerBands,
+  cci,
+  ema,
+  ichimoku,
+  macd,
+  obv,
+  rsi,
+  rsiCrossover,
+  rsiDivergence,
+  sma,
+  stochastic,
+  vwap,
+  williamsR,
+} from "./indicators";
+
+const bar = (close: number, volume = 100, range = 1): StockData => ({
+  date: "2024-01-01",
+  open: close,
+  high: close + range,
+  low: close - range,
+  close,
+  volume,
+});
+
+const closes = Array.from({ length: 60 }, (_, i) => 100 + i);
+const bars = closes.map((close) => bar(close));
+
+describe("moving averages", () => {
+  it("should align series with their input", () => {
+    expect(sma([1, 2, 3, 4], 2)).toEqual([null, 1.5, 2.5, 3.5]);
+    expect(ema([1, 2, 3, 4], 3)).toEqual([null, null, 2, 3]);
+  });
+
+  it("should put Bollinger Bands symmetrically around the SMA", () => {
+    const bands = bollingerBands([2, 4, 4, 4, 5, 5, 7, 9], 8);
+    expect(bands.middle[7]).toBe(5);
+    expect(bands.upper[7]).toBe(9);
+    expect(bands.lower[7]).toBe(1);
+  });
+});
+
+describe("momentum indicators", () => {
+  it("should show a positive MACD in a steady uptrend", () => {
+    const result = macd(closes);
+    expect(result.macd[24]).toBeNull();
+    expect(result.macd[25]).toBeGreaterThan(0);
+    expect(result.signal[33]).toBeGreaterThan(0);
+    expect(result.histogram).toHaveLength(closes.length);
+  });
+
+  it("should pin oscillators near their extremes at new highs", () => {
+    expect(stochastic(bars).k[59]).toBeCloseTo((14 / 15) * 100);
+    expect(williamsR(bars)[59]).toBeCloseTo((14 / 15) * 100 - 100);
+    expect(cci(bars)[59]).toBeGreaterThan(100);
+  });
+
+  it("should report a strong trend with +DI above -DI", () => {
+    const result = adx(bars);
+    expect(result.plusDI[59]).toBeGreaterThan(result.minusDI[59]);
+    expect(result.adx[59]).toBeGreaterThan(50);
+  });
+});
+
+describe("volatility and volume indicators", () => {
+  it("should compute ATR from true ranges", () => {
+    // Each bar spans 2 and gaps up 1 from the previous close
+    expect(atr(bars)[14]).toBeCloseTo(2);
+    expect(atr(bars)[13]).toBeNull();
+  });
+
+  it("should accumulate OBV and VWAP", () => {
+    const sample = [bar(10, 100), bar(11, 200), bar(9, 50)];
+    expect(obv(sample)).toEqual([0, 200, 150]);
+    expect(vwap(sample)[1]).toBeCloseTo((10 * 100 + 11 * 200) / 300);
+    expect(vwap(sample, 2)).toEqual([
+      null,
+      expect.any(Number),
+      (11 * 200 + 9 * 50) / 250,
+    ]);
+  });
+});
+
+describe("ichimoku", () => {
+  it("should displace the cloud forward and the chikou span back", () => {
+    const result = ichimoku(bars);
+    // Span B needs 52 bars before its 26-bar shift, beyond this history
+    expect(result.senkouB.every((value) => value === null)).toBe(true);
+    expect(result.senkouA[51]).toBe(
+      ((result.tenkan[25] as number) + (result.kijun[25] as number)) / 2,
+    );
+    expect(result.chikou[0]).toBe(bars[26].close);
+    expect(result.chikou[59]).toBeNull();
+  });
+});
+
+describe("rsi", () => {
+  // Closing prices from the widely published StockCharts RSI worked example
+  const wilderCloses = [
+    44.34, 44.09, 44.15, 43.61, 44.33, 44.83, 45.1, 45.42, 45.84, 46.08, 45.89,
+    46.03, 45.61, 46.28, 46.28, 46.0, 46.03, 46.41, 46.22, 45.64,
+  ];
+
+  it("should match the reference Wilder values", () => {
+    const result = rsi(wilderCloses);
+    expect(result[13]).toBeNull();
+    expect(result[14]).toBeCloseTo(70.46, 2);
+    expect(result[15]).toBeCloseTo(66.25, 2);
+    expect(result[19]).toBeCloseTo(57.92, 2);
+  });
+
+  it("should keep the simple average method as an option", () => {
+    const simple = rsi(wilderCloses, 14, "simple");
+    expect(simple[14]).toBeCloseTo(70.46, 2);
+    expect(simple[15]).not.toBeCloseTo(rsi(wilderCloses)[15], 1);
+  });
+
+  it("should detect crossings out of extreme zones", () => {
+    expect(rsiCrossover([null, 25, 35])).toBe("BULLISH");
+    expect(rsiCrossover([75, 65])).toBe("BEARISH");
+    expect(rsiCrossover([45, 55])).toBe("NONE");
+  });
+
+  it("should detect a bullish divergence", () => {
+    // Price makes a lower low while RSI makes a higher low
+    const prices = [10, 8, 9, 10, 9, 7.5, 8, 9];
+    const series = [50, 20, 40, 55, 45, 30, 40, 50];
+    expect(rsiDivergence(prices, series, 4)).toBe("BULLISH");
+  });
+});
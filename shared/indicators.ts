@@ -0,0 +1,395 @@
+/**
+ * Technical indicators shared between client and server.
+ *
+ * Every function returns full series aligned index-for-index with its input
+ * bars, using `null` where there is not yet enough history for a value.
+ */
+
+import { StockData } from "./api";
+
+export type Series = (number | null)[];
+
+function rolling(
+  values: number[],
+  period: number,
+  reduce: (window: number[]) => number,
+): Series {
+  return values.map((_, i) =>
+    i + 1 >= period ? reduce(values.slice(i + 1 - period, i + 1)) : null,
+  );
+}
+
+const sum = (values: number[]) => values.reduce((total, v) => total + v, 0);
+
+/** Simple moving average */
+export function sma(values: number[], period: number): Series {
+  return rolling(values, period, (window) => sum(window) / period);
+}
+
+/** Exponential moving average, seeded with the SMA of the first window */
+export function ema(values: number[], period: number): Series {
+  const k = 2 / (period + 1);
+  const result: Series = [];
+  let previous: number | null = null;
+
+  values.forEach((value, i) => {
+    if (i + 1 < period) {
+      result.push(null);
+      return;
+    }
+    previous =
+      previous === null
+        ? sum(values.slice(0, period)) / period
+        : value * k + previous * (1 - k);
+    result.push(previous);
+  });
+
+  return result;
+}
+
+/**
+ * Wilder's smoothing (an EMA with alpha = 1 / period), seeded with the
+ * simple average of the first window
+ */
+export function wilderSmooth(values: number[], period: number): Series {
+  const result: Series = [];
+  let previous: number | null = null;
+
+  values.forEach((value, i) => {
+    if (i + 1 < period) {
+      result.push(null);
+      return;
+    }
+    previous =
+      previous === null
+        ? sum(values.slice(0, period)) / period
+        : (previous * (period - 1) + value) / period;
+    result.push(previous);
+  });
+
+  return result;
+}
+
+// Apply a smoother to a series that starts with nulls, keeping alignment
+function smoothDefined(
+  series: Series,
+  period: number,
+  smoother: (values: number[], period: number) => Series,
+): Series {
+  const start = series.findIndex((value) => value !== null);
+  if (start === -1) return series.map(() => null);
+  const smoothed = smoother(series.slice(start) as number[], period);
+  return [...series.slice(0, start).map(() => null), ...smoothed];
+}
+
+export type RsiMethod = "wilder" | "simple";
+
+/**
+ * Relative Strength Index. "wilder" smooths gains and losses the way charting
+ * platforms do; "simple" takes the plain average of the last `period` of each.
+ */
+export function rsi(
+  values: number[],
+  period: number = 14,
+  method: RsiMethod = "wilder",
+): Series {
+  const changes = values.slice(1).map((value, i) => value - values[i]);
+  const gains = changes.map((change) => (change > 0 ? change : 0));
+  const losses = changes.map((change) => (change < 0 ? -change : 0));
+
+  const averageGains =
+    method === "wilder" ? wilderSmooth(gains, period) : sma(gains, period);
+  const averageLosses =
+    method === "wilder" ? wilderSmooth(losses, period) : sma(losses, period);
+
+  const result: Series = averageGains.map((gain, i) => {
+    const loss = averageLosses[i];
+    if (gain === null || loss === null) return null;
+    if (loss === 0) return gain === 0 ? 50 : 100;
+    return 100 - 100 / (1 + gain / loss);
+  });
+
+  // Changes start at the second value, so the first RSI slot is always empty
+  return values.length > 0 ? [null, ...result] : [];
+}
+
+export type RsiEvent = "BULLISH" | "BEARISH" | "NONE";
+
+/**
+ * Whether the latest RSI value just left an extreme zone: rising back above
+ * `oversold` is bullish, falling back below `overbought` is bearish.
+ */
+export function rsiCrossover(
+  series: Series,
+  oversold: number = 30,
+  overbought: number = 70,
+): RsiEvent {
+  const current = series[series.length - 1];
+  const previous = series[series.length - 2];
+  if (current == null || previous == null) return "NONE";
+  if (previous < oversold && current >= oversold) return "BULLISH";
+  if (previous > overbought && current <= overbought) return "BEARISH";
+  return "NONE";
+}
+
+/**
+ * Compare the last `lookback` bars with the `lookback` bars before them.
+ * A lower price low with a higher RSI low is a bullish divergence; a higher
+ * price high with a lower RSI high is a bearish one.
+ */
+export function rsiDivergence(
+  values: number[],
+  series: Series,
+  lookback: number = 14,
+): RsiEvent {
+  if (values.length < lookback * 2) return "NONE";
+
+  const recent = values.length - lookback;
+  const earlier = recent - lookback;
+  const rsiRecent = series.slice(recent);
+  const rsiEarlier = series.slice(earlier, recent);
+  if ([...rsiRecent, ...rsiEarlier].some((value) => value === null)) {
+    return "NONE";
+  }
+
+  const priceRecent = values.slice(recent);
+  const priceEarlier = values.slice(earlier, recent);
+
+  if (
+    Math.min(...priceRecent) < Math.min(...priceEarlier) &&
+    Math.min(...(rsiRecent as number[])) > Math.min(...(rsiEarlier as number[]))
+  ) {
+    return "BULLISH";
+  }
+  if (
+    Math.max(...priceRecent) > Math.max(...priceEarlier) &&
+    Math.max(...(rsiRecent as number[])) < Math.max(...(rsiEarlier as number[]))
+  ) {
+    return "BEARISH";
+  }
+  return "NONE";
+}
+
+/** Bollinger Bands: SMA middle band with bands `multiplier` std devs away */
+export function bollingerBands(
+  values: number[],
+  period: number = 20,
+  multiplier: number = 2,
+) {
+  const middle = sma(values, period);
+  const deviation = rolling(values, period, (window) => {
+    const mean = sum(window) / period;
+    return Math.sqrt(sum(window.map((v) => (v - mean) ** 2)) / period);
+  });
+
+  return {
+    upper: middle.map((m, i) =>
+      m === null ? null : m + multiplier * deviation[i],
+    ),
+    middle,
+    lower: middle.map((m, i) =>
+      m === null ? null : m - multiplier * deviation[i],
+    ),
+  };
+}
+
+/** MACD line, signal line and histogram */
+export function macd(
+  values: number[],
+  fast: number = 12,
+  slow: number = 26,
+  signalPeriod: number = 9,
+) {
+  const fastEma = ema(values, fast);
+  const slowEma = ema(values, slow);
+  const line: Series = values.map((_, i) =>
+    fastEma[i] === null || slowEma[i] === null ? null : fastEma[i] - slowEma[i],
+  );
+  const signal = smoothDefined(line, signalPeriod, ema);
+
+  return {
+    macd: line,
+    signal,
+    histogram: line.map((value, i) =>
+      value === null || signal[i] === null ? null : value - signal[i],
+    ),
+  };
+}
+
+function trueRanges(bars: StockData[]): number[] {
+  return bars.map((bar, i) =>
+    i === 0
+      ? bar.high - bar.low
+      : Math.max(
+          bar.high - bar.low,
+          Math.abs(bar.high - bars[i - 1].close),
+          Math.abs(bar.low - bars[i - 1].close),
+        ),
+  );
+}
+
+/** Average True Range with Wilder smoothing */
+export function atr(bars: StockData[], period: number = 14): Series {
+  // The first true range has no previous close, so start from the second
+  const smoothed = wilderSmooth(trueRanges(bars).slice(1), period);
+  return bars.length > 0 ? [null, ...smoothed] : [];
+}
+
+/** Stochastic oscillator: %K over `period`, %D as its SMA */
+export function stochastic(
+  bars: StockData[],
+  period: number = 14,
+  smoothK: number = 3,
+) {
+  const k: Series = bars.map((bar, i) => {
+    if (i + 1 < period) return null;
+    const window = bars.slice(i + 1 - period, i + 1);
+    const highest = Math.max(...window.map((b) => b.high));
+    const lowest = Math.min(...window.map((b) => b.low));
+    return highest === lowest
+      ? 50
+      : ((bar.close - lowest) / (highest - lowest)) * 100;
+  });
+
+  return { k, d: smoothDefined(k, smoothK, sma) };
+}
+
+/** Williams %R, from 0 (at the high) to -100 (at the low) */
+export function williamsR(bars: StockData[], period: number = 14): Series {
+  return stochastic(bars, period).k.map((k) => (k === null ? null : k - 100));
+}
+
+/** Average Directional Index with the +DI and -DI lines */
+export function adx(bars: StockData[], period: number = 14) {
+  const plusDM: number[] = [];
+  const minusDM: number[] = [];
+  for (let i = 1; i < bars.length; i++) {
+    const up = bars[i].high - bars[i - 1].high;
+    const down = bars[i - 1].low - bars[i].low;
+    plusDM.push(up > down && up > 0 ? up : 0);
+    minusDM.push(down > up && down > 0 ? down : 0);
+  }
+
+  const tr = wilderSmooth(trueRanges(bars).slice(1), period);
+  const plus = wilderSmooth(plusDM, period);
+  const minus = wilderSmooth(minusDM, period);
+
+  const plusDI: Series = [null];
+  const minusDI: Series = [null];
+  const dx: Series = [null];
+  tr.forEach((range, i) => {
+    if (range === null) {
+      plusDI.push(null);
+      minusDI.push(null);
+      dx.push(null);
+      return;
+    }
+    if (range === 0) {
+      // No movement at all: no directional strength either way
+      plusDI.push(0);
+      minusDI.push(0);
+      dx.push(0);
+      return;
+    }
+    const p = (plus[i] / range) * 100;
+    const m = (minus[i] / range) * 100;
+    plusDI.push(p);
+    minusDI.push(m);
+    dx.push(p + m === 0 ? 0 : (Math.abs(p - m) / (p + m)) * 100);
+  });
+
+  return {
+    adx: bars.length > 0 ? smoothDefined(dx, period, wilderSmooth) : [],
+    plusDI: bars.length > 0 ? plusDI : [],
+    minusDI: bars.length > 0 ? minusDI : [],
+  };
+}
+
+/** On-Balance Volume, starting from zero at the first bar */
+export function obv(bars: StockData[]): number[] {
+  let total = 0;
+  return bars.map((bar, i) => {
+    if (i > 0) {
+      if (bar.close > bars[i - 1].close) total += bar.volume;
+      else if (bar.close < bars[i - 1].close) total -= bar.volume;
+    }
+    return total;
+  });
+}
+
+/**
+ * Volume-weighted average of the typical price. Cumulative from the first
+ * bar by default, or over a rolling window when `period` is given.
+ */
+export function vwap(bars: StockData[], period?: number): Series {
+  let cumulativeWeighted = 0;
+  let cumulativeVolume = 0;
+  const cumulative = bars.map((bar) => {
+    cumulativeWeighted += ((bar.high + bar.low + bar.close) / 3) * bar.volume;
+    cumulativeVolume += bar.volume;
+    return { weighted: cumulativeWeighted, volume: cumulativeVolume };
+  });
+
+  return cumulative.map((current, i) => {
+    if (period && i + 1 < period) return null;
+    const before = period && i >= period ? cumulative[i - period] : null;
+    const volume = current.volume - (before?.volume ?? 0);
+    const weighted = current.weighted - (before?.weighted ?? 0);
+    return volume === 0 ? null : weighted / volume;
+  });
+}
+
+/** Commodity Channel Index using the typical price */
+export function cci(bars: StockData[], period: number = 20): Series {
+  const typical = bars.map((bar) => (bar.high + bar.low + bar.close) / 3);
+
+  return rolling(typical, period, (window) => {
+    const mean = sum(window) / period;
+    const meanDeviation = sum(window.map((v) => Math.abs(v - mean))) / period;
+    const current = window[window.length - 1];
+    return meanDeviation === 0 ? 0 : (current - mean) / (0.015 * meanDeviation);
+  });
+}
+
+/**
+ * Ichimoku cloud. Senkou spans are shifted forward by `displacement`, so
+ * index i holds the span value plotted at bar i; the chikou span is the
+ * close plotted `displacement` bars back, so it is null for the last bars.
+ */
+export function ichimoku(
+  bars: StockData[],
+  conversionPeriod: number = 9,
+  basePeriod: number = 26,
+  spanBPeriod: number = 52,
+  displacement: number = 26,
+) {
+  const midpoint = (period: number): Series =>
+    bars.map((_, i) => {
+      if (i + 1 < period) return null;
+      const window = bars.slice(i + 1 - period, i + 1);
+      return (
+        (Math.max(...window.map((b) => b.high)) +
+          Math.min(...window.map((b) => b.low))) /
+        2
+      );
+    });
+
+  const tenkan = midpoint(conversionPeriod);
+  const kijun = midpoint(basePeriod);
+  const spanA: Series = tenkan.map((t, i) =>
+    t === null || kijun[i] === null ? null : (t + kijun[i]) / 2,
+  );
+  const spanB = midpoint(spanBPeriod);
+  const shift = (series: Series): Series =>
+    series.map((_, i) => (i >= displacement ? series[i - displacement] : null));
+
+  return {
+    tenkan,
+    kijun,
+    senkouA: shift(spanA),
+    senkouB: shift(spanB),
+    chikou: bars.map((_, i) =>
+      i + displacement < bars.length ? bars[i + displacement].close : null,
+    ),
+  };
+}